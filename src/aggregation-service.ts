@@ -1,6 +1,40 @@
 import { Pool } from 'pg'
 import { Server } from 'socket.io'
 
+/**
+ * Tuning for the trending posts job
+ */
+export interface TrendingOptions {
+    // How many posts each snapshot keeps
+    limit?: number
+    // Velocity counts engagement from this far back
+    velocityWindowMs?: number
+    // Engagement counts half as much after this long
+    engagementHalfLifeMs?: number
+    // Older posts can't trend; a post's score halves every postHalfLifeMs of age
+    maxPostAgeMs?: number
+    postHalfLifeMs?: number
+    // How far back the author baseline looks, not counting posts young enough to trend
+    baselineWindowMs?: number
+    // Posts need this many engagements in the window to be considered
+    minEngagements?: number
+    weights?: { like: number, repost: number, reply: number }
+    // Snapshots older than this are pruned
+    retentionMs?: number
+}
+
+const TRENDING_DEFAULTS: Required<TrendingOptions> = {
+    limit: 100,
+    velocityWindowMs: 60 * 60 * 1000,
+    engagementHalfLifeMs: 30 * 60 * 1000,
+    maxPostAgeMs: 24 * 60 * 60 * 1000,
+    postHalfLifeMs: 6 * 60 * 60 * 1000,
+    baselineWindowMs: 7 * 24 * 60 * 60 * 1000,
+    minEngagements: 3,
+    weights: { like: 1, repost: 2, reply: 2 },
+    retentionMs: 7 * 24 * 60 * 60 * 1000
+}
+
 export class AggregationService {
     private pool: Pool
     private io?: Server
@@ -18,6 +52,7 @@ export class AggregationService {
                 SELECT COUNT(*) AS count
                 FROM posts
                 WHERE created_at >= NOW() - INTERVAL '1 minute'
+                  AND deleted_at IS NULL
                 `)
 
             const postsPerMinute = parseInt(postsPerMinuteResults.rows[0].count)
@@ -26,6 +61,7 @@ export class AggregationService {
                 SELECT COUNT(DISTINCT did) AS count
                 FROM posts
                 WHERE created_at >= NOW() - INTERVAL '5 minutes'
+                  AND deleted_at IS NULL
                 `)
 
             const activeUsers = parseInt(activeUsersResult.rows[0].count)
@@ -44,6 +80,7 @@ export class AggregationService {
             console.log('Computing short-term metrics...')
 
             await this.updateHourlyPostMetrics()
+            await this.updateHourlyLanguageMetrics()
 
             console.log("Updated hourly metrics")
 
@@ -54,7 +91,11 @@ export class AggregationService {
                     unique_author_count,
                     has_image_count,
                     has_link_count,
-                    text_only_count
+                    has_quote_count,
+                    has_video_count,
+                    text_only_count,
+                    unique_domain_count,
+                    image_alt_coverage
                 FROM metrics.hourly_post_metrics
                 WHERE hour_timestamp >= NOW() - INTERVAL '24 hours'
                 ORDER BY hour_timestamp
@@ -80,21 +121,35 @@ export class AggregationService {
                     unique_author_count,
                     has_image_count,
                     has_link_count,
+                    has_quote_count,
+                    has_video_count,
                     text_only_count,
+                    unique_domain_count,
+                    image_alt_coverage,
                     avg_text_length,
                     max_text_length,
                     min_text_length
                 )
                 SELECT
                     hour_timestamp,
-                    COUNT(*) AS post_count,
-                    COUNT(DISTINCT did) AS unique_author_count,
-                    SUM(CASE WHEN has_image = true THEN 1 ELSE 0 END) AS has_image_count,
-                    SUM(CASE WHEN has_external_link = true THEN 1 ELSE 0 END) AS has_link_count,
-                    SUM(CASE WHEN has_image = false AND has_external_link = false THEN 1 ELSE 0 END) AS text_only_count,
-                    AVG(text_length) AS avg_text_length,
-                    MAX(text_length) AS max_text_length,
-                    MIN(text_length) AS min_text_length
+                    COUNT(*) FILTER (WHERE deleted_at IS NULL) AS post_count,
+                    COUNT(DISTINCT did) FILTER (WHERE deleted_at IS NULL) AS unique_author_count,
+                    COUNT(*) FILTER (WHERE deleted_at IS NULL AND has_image = true) AS has_image_count,
+                    COUNT(*) FILTER (WHERE deleted_at IS NULL AND has_external_link = true) AS has_link_count,
+                    COUNT(*) FILTER (WHERE deleted_at IS NULL AND quote_uri IS NOT NULL) AS has_quote_count,
+                    COUNT(*) FILTER (WHERE deleted_at IS NULL AND has_video = true) AS has_video_count,
+                    COUNT(*) FILTER (
+                        WHERE deleted_at IS NULL AND has_image = false AND has_external_link = false
+                          AND has_video = false AND quote_uri IS NULL
+                    ) AS text_only_count,
+                    COUNT(DISTINCT external_domain) FILTER (WHERE deleted_at IS NULL) AS unique_domain_count,
+                    -- Share of attached images that have alt text; NULL for hours without images
+                    SUM(image_alt_count) FILTER (WHERE deleted_at IS NULL)::FLOAT
+                        / NULLIF(SUM(image_count) FILTER (WHERE deleted_at IS NULL), 0) AS image_alt_coverage,
+                    AVG(text_length) FILTER (WHERE deleted_at IS NULL) AS avg_text_length,
+                    MAX(text_length) FILTER (WHERE deleted_at IS NULL) AS max_text_length,
+                    MIN(text_length) FILTER (WHERE deleted_at IS NULL) AS min_text_length
+                -- Deleted posts still group so an hour whose posts were all deleted drops to zero
                 FROM posts
                 WHERE 
                     created_at >= date_trunc('hour', NOW() - INTERVAL '${daysBack} days')
@@ -106,7 +161,11 @@ export class AggregationService {
                     unique_author_count = EXCLUDED.unique_author_count,
                     has_image_count = EXCLUDED.has_image_count,
                     has_link_count = EXCLUDED.has_link_count,
+                    has_quote_count = EXCLUDED.has_quote_count,
+                    has_video_count = EXCLUDED.has_video_count,
                     text_only_count = EXCLUDED.text_only_count,
+                    unique_domain_count = EXCLUDED.unique_domain_count,
+                    image_alt_coverage = EXCLUDED.image_alt_coverage,
                     avg_text_length = EXCLUDED.avg_text_length,
                     max_text_length = EXCLUDED.max_text_length,
                     min_text_length = EXCLUDED.min_text_length,
@@ -128,71 +187,235 @@ export class AggregationService {
         }
     }
 
-    public async resetDb(): Promise<boolean> {
-
-        const client = await this.pool.connect()
-    
+    /**
+     * Count each complete hour's posts by primary language
+     */
+    private async updateHourlyLanguageMetrics(daysBack = 1) {
         try {
-    
-            await client.query(`
-                DROP TABLE IF EXISTS metrics.hourly_post_metrics CASCADE;
-            `);
-    
-            console.log('Dropped hourly post metrics tables');
-    
-            return await this.initializeMetricsSchema();
-        } catch (err) {
-            console.error('Failed to reset database schema:', err)
-            return false;
-        } finally {
-            if (client) {
-                client.release();
-            }
+            await this.pool.query(`
+                INSERT INTO metrics.hourly_language_metrics (
+                    hour_timestamp,
+                    language,
+                    post_count,
+                    unique_author_count,
+                    declared_count,
+                    detected_count,
+                    avg_detected_confidence
+                )
+                SELECT
+                    hour_timestamp,
+                    COALESCE(language, 'und') AS language,
+                    COUNT(*) FILTER (WHERE deleted_at IS NULL) AS post_count,
+                    COUNT(DISTINCT did) FILTER (WHERE deleted_at IS NULL) AS unique_author_count,
+                    COUNT(*) FILTER (WHERE deleted_at IS NULL AND language_source = 'declared') AS declared_count,
+                    COUNT(*) FILTER (WHERE deleted_at IS NULL AND language_source = 'detected') AS detected_count,
+                    AVG(language_confidence) FILTER (WHERE deleted_at IS NULL AND language_source = 'detected') AS avg_detected_confidence
+                -- Deleted posts still group so a language whose posts were all deleted drops to zero
+                FROM posts
+                WHERE
+                    created_at >= date_trunc('hour', NOW() - INTERVAL '${daysBack} days')
+                    AND created_at < date_trunc('hour', NOW())
+                GROUP BY hour_timestamp, COALESCE(language, 'und')
+                ON CONFLICT (hour_timestamp, language)
+                DO UPDATE SET
+                    post_count = EXCLUDED.post_count,
+                    unique_author_count = EXCLUDED.unique_author_count,
+                    declared_count = EXCLUDED.declared_count,
+                    detected_count = EXCLUDED.detected_count,
+                    avg_detected_confidence = EXCLUDED.avg_detected_confidence,
+                    updated_at = NOW()
+                `)
+
+            console.log(`Updated hourly language metrics (${daysBack} days of data)`)
+            return true
+        } catch (error) {
+            console.error('Error updating hourly language metrics:', error)
+            throw error
         }
     }
 
-    async initializeMetricsSchema() {
-        const client = await this.pool.connect()
-
+    /**
+     * Hourly post counts per language, most common languages first within each hour
+     */
+    async getHourlyLanguageMetrics(hours = 24) {
         try {
-            await client.query('BEGIN')
-
-            await client.query(`
-                CREATE SCHEMA IF NOT EXISTS metrics
-            `)
-
-            await client.query(`
-                CREATE TABLE IF NOT EXISTS metrics.hourly_post_metrics (
-                  hour_timestamp TIMESTAMP WITH TIME ZONE PRIMARY KEY,
-                  post_count INTEGER NOT NULL,
-                  unique_author_count INTEGER NOT NULL,
-                  has_image_count INTEGER NOT NULL DEFAULT 0,
-                  has_link_count INTEGER NOT NULL DEFAULT 0,
-                  text_only_count INTEGER NOT NULL DEFAULT 0,
-                  avg_text_length FLOAT,
-                  max_text_length INTEGER,
-                  min_text_length INTEGER,
-                  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
-                  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
-                );
+            const result = await this.pool.query(`
+                SELECT
+                    hour_timestamp,
+                    language,
+                    post_count,
+                    unique_author_count,
+                    declared_count,
+                    detected_count,
+                    avg_detected_confidence
+                FROM metrics.hourly_language_metrics
+                WHERE hour_timestamp >= NOW() - $1 * INTERVAL '1 hour'
+                  AND post_count > 0
+                ORDER BY hour_timestamp, post_count DESC, language
+                `, [hours])
+
+            return result.rows
+        } catch (error) {
+            console.error('Error fetching hourly language metrics:', error)
+            throw error
+        }
+    }
 
-                CREATE INDEX IF NOT EXISTS idx_hourly_post_metrics_timestamp
-                ON metrics.hourly_post_metrics (hour_timestamp);
-            `)
+    /**
+     * Score recent posts by engagement velocity and store the top ones as a snapshot
+     *
+     * score = velocity * age decay / (1 + author baseline), where velocity is
+     * weighted likes, reposts and replies per hour over the window, each decayed
+     * by its own age, and the baseline is the author's weighted engagement per
+     * post before that, so accounts that always get engagement need more to trend
+     *
+     * @returns When the snapshot was taken and how many posts it holds
+     */
+    async computeTrendingPosts(options: TrendingOptions = {}) {
+        const config = { ...TRENDING_DEFAULTS, ...options }
 
-            await client.query('COMMIT')
+        try {
+            const snapshotAt = new Date()
 
-            console.log('Metrics schema and tables initialized successfully')
+            const result = await this.pool.query(`
+                WITH recent AS (
+                    SELECT
+                        e.post_uri,
+                        COUNT(*) FILTER (WHERE e.type = 'like') AS likes,
+                        COUNT(*) FILTER (WHERE e.type = 'repost') AS reposts,
+                        COUNT(*) FILTER (WHERE e.type = 'reply') AS replies,
+                        SUM(
+                            CASE e.type WHEN 'like' THEN $3::float8 WHEN 'repost' THEN $4::float8 ELSE $5::float8 END
+                            * EXP(-LN(2) * EXTRACT(EPOCH FROM $1::timestamptz - e.created_at) * 1000 / $6)
+                        ) AS decayed
+                    FROM engagements e
+                    WHERE e.created_at > $1::timestamptz - $2 * INTERVAL '1 millisecond'
+                      AND e.created_at <= $1
+                      AND e.deleted_at IS NULL
+                      AND e.type IN ('like', 'repost', 'reply')
+                    GROUP BY e.post_uri
+                    HAVING COUNT(*) >= $10
+                ),
+                candidates AS (
+                    SELECT
+                        p.uri,
+                        p.did,
+                        r.likes,
+                        r.reposts,
+                        r.replies,
+                        r.decayed / ($2 / 3600000.0) AS velocity,
+                        EXTRACT(EPOCH FROM $1::timestamptz - p.created_at) / 3600 AS post_age_hours
+                    FROM recent r
+                    JOIN posts p ON p.uri = r.post_uri
+                    WHERE NOT p.is_stub
+                      AND p.deleted_at IS NULL
+                      AND p.author_active
+                      AND p.created_at >= $1::timestamptz - $7 * INTERVAL '1 millisecond'
+                ),
+                baselines AS (
+                    SELECT
+                        p.did,
+                        COALESCE(SUM(
+                            CASE e.type WHEN 'like' THEN $3::float8 WHEN 'repost' THEN $4::float8 WHEN 'reply' THEN $5::float8 ELSE 0 END
+                        ), 0) / COUNT(DISTINCT p.uri) AS baseline
+                    FROM posts p
+                    LEFT JOIN engagements e ON e.post_uri = p.uri AND e.deleted_at IS NULL
+                    WHERE p.did IN (SELECT did FROM candidates)
+                      AND NOT p.is_stub
+                      AND p.deleted_at IS NULL
+                      AND p.created_at >= $1::timestamptz - $9 * INTERVAL '1 millisecond'
+                      AND p.created_at < $1::timestamptz - $7 * INTERVAL '1 millisecond'
+                    GROUP BY p.did
+                ),
+                scored AS (
+                    SELECT
+                        c.*,
+                        EXP(-LN(2) * c.post_age_hours * 3600000 / $8) AS age_decay,
+                        COALESCE(b.baseline, 0) AS author_baseline
+                    FROM candidates c
+                    LEFT JOIN baselines b ON b.did = c.did
+                )
+                INSERT INTO metrics.trending_posts (
+                    snapshot_at, rank, post_uri, author_did, score,
+                    likes, reposts, replies, velocity, post_age_hours, age_decay, author_baseline
+                )
+                SELECT
+                    $1,
+                    ROW_NUMBER() OVER (ORDER BY score DESC, uri),
+                    uri, did, score,
+                    likes, reposts, replies, velocity, post_age_hours, age_decay, author_baseline
+                FROM (
+                    SELECT *, velocity * age_decay / (1 + author_baseline) AS score
+                    FROM scored
+                    ORDER BY score DESC, uri
+                    LIMIT $11
+                ) top
+            `, [
+                snapshotAt,
+                config.velocityWindowMs,
+                config.weights.like,
+                config.weights.repost,
+                config.weights.reply,
+                config.engagementHalfLifeMs,
+                config.maxPostAgeMs,
+                config.postHalfLifeMs,
+                config.baselineWindowMs,
+                config.minEngagements,
+                config.limit
+            ])
+
+            await this.pool.query(`
+                DELETE FROM metrics.trending_posts
+                WHERE snapshot_at < $1::timestamptz - $2 * INTERVAL '1 millisecond'
+                `, [snapshotAt, config.retentionMs])
+
+            console.log(`Stored trending snapshot with ${result.rowCount} posts`)
+            return { snapshotAt, posts: result.rowCount || 0 }
+        } catch (error) {
+            console.error('Error computing trending posts:', error)
+            throw error
+        }
+    }
 
-            // await this.backfillHistoricalData()
+    /**
+     * The latest trending snapshot, with each post's score breakdown
+     */
+    async getTrendingPosts(limit = 50) {
+        try {
+            const result = await this.pool.query(`
+                SELECT t.*, u.handle, p.text, p.created_at
+                FROM metrics.trending_posts t
+                LEFT JOIN users u ON u.did = t.author_did
+                LEFT JOIN posts p ON p.uri = t.post_uri
+                WHERE t.snapshot_at = (SELECT MAX(snapshot_at) FROM metrics.trending_posts)
+                ORDER BY t.rank
+                LIMIT $1
+                `, [limit])
 
-            return true
+            return {
+                snapshotAt: result.rows.length > 0 ? result.rows[0].snapshot_at : null,
+                posts: result.rows.map(row => ({
+                    rank: row.rank,
+                    uri: row.post_uri,
+                    authorDid: row.author_did,
+                    handle: row.handle,
+                    text: row.text,
+                    createdAt: row.created_at,
+                    score: row.score,
+                    breakdown: {
+                        likes: row.likes,
+                        reposts: row.reposts,
+                        replies: row.replies,
+                        velocity: row.velocity,
+                        postAgeHours: row.post_age_hours,
+                        ageDecay: row.age_decay,
+                        authorBaseline: row.author_baseline
+                    }
+                }))
+            }
         } catch (error) {
-            await client.query('ROLLBACK')
-            console.error('Error initializing metrics schema:', error)
+            console.error('Error fetching trending posts:', error)
             throw error
-        } finally {
-            client.release()
         }
     }
 
@@ -201,6 +424,7 @@ export class AggregationService {
             console.log('Backfilling historical metrics data...')
 
             await this.updateHourlyPostMetrics(7)
+            await this.updateHourlyLanguageMetrics(7)
 
             console.log('Historical data backfill completed')
             return true
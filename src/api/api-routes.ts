@@ -2,8 +2,19 @@
 import express from 'express';
 import { Pool } from 'pg';
 import { AggregationService } from '../aggregation-service';
+import { MessageQueue } from '../message-queue';
+import { JetstreamProcessor } from '../jetstream-processor';
+import { JetstreamCollector } from '../jetstream-collector';
+import { DeadLetterQueue, DeadLetterStatus } from '../dead-letter-queue';
 
-export function setupApiRoutes(app: express.Application, pool: Pool) {
+export interface IngestionComponents {
+  queue?: MessageQueue;
+  processor?: JetstreamProcessor;
+  collector?: JetstreamCollector;
+  deadLetters?: DeadLetterQueue;
+}
+
+export function setupApiRoutes(app: express.Application, pool: Pool, ingestion: IngestionComponents = {}) {
   const router = express.Router();
   const aggregationService = new AggregationService(pool);
 
@@ -26,6 +37,8 @@ export function setupApiRoutes(app: express.Application, pool: Pool) {
       const posts = await pool.query(`
         SELECT COUNT(*)
         FROM posts
+        WHERE deleted_at IS NULL
+          AND NOT is_stub
         `)
 
       console.log("Posts count:", posts.rows)
@@ -54,12 +67,14 @@ export function setupApiRoutes(app: express.Application, pool: Pool) {
         SELECT COUNT(*) AS count
         FROM posts
         WHERE created_at >= NOW() - INTERVAL '1 minute'
+          AND deleted_at IS NULL
         `)
 
       const activeUsersResult = await pool.query(`
         SELECT COUNT(DISTINCT did) AS count
         FROM posts
         WHERE created_at >= NOW() - INTERVAL '5 minutes'
+          AND deleted_at IS NULL
         `)
 
       const mostActiveUserResult = await pool.query(`
@@ -67,6 +82,7 @@ export function setupApiRoutes(app: express.Application, pool: Pool) {
         FROM posts p
         JOIN users u ON p.did = u.did
         WHERE p.created_at >= NOW() - INTERVAL '10 minutes'
+          AND p.deleted_at IS NULL
         GROUP BY p.did, u.handle
         ORDER BY post_count DESC
         LIMIT 1
@@ -86,5 +102,185 @@ export function setupApiRoutes(app: express.Application, pool: Pool) {
     }
   })
 
+  // Posts per language per hour; ?hours= defaults to 24
+  router.get('/metrics/languages', async (req, res) => {
+    try {
+      const hours = Math.min(Math.max(parseInt(req.query.hours as string) || 24, 1), 24 * 7);
+      res.json(await aggregationService.getHourlyLanguageMetrics(hours));
+    } catch (error) {
+      console.error('Error fetching language metrics:', error);
+      res.status(500).json({ error: 'Failed to fetch language metrics' });
+    }
+  });
+
+  // Latest trending snapshot, with each post's score breakdown
+  router.get('/trending/posts', async (req, res) => {
+    try {
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 100);
+      const data = await aggregationService.getTrendingPosts(limit);
+      res.json(data);
+    } catch (error) {
+      console.error('Error fetching trending posts:', error);
+      res.status(500).json({ error: 'Failed to fetch trending posts' });
+    }
+  });
+
+  // Queue depth, lag and write throughput, to see when ingestion falls behind
+  router.get('/ingestion/status', (req, res) => {
+    res.json({
+      queue: ingestion.queue ? ingestion.queue.getStats() : null,
+      writer: ingestion.processor ? ingestion.processor.getWriterStats() : null,
+      hydration: ingestion.processor ? ingestion.processor.getHydrationStats() : null,
+      identity: ingestion.processor ? ingestion.processor.getIdentityStats() : null,
+      bandwidth: ingestion.collector ? ingestion.collector.getBandwidthStats() : null,
+      endpoints: ingestion.collector ? ingestion.collector.getEndpointHealth() : null,
+      timestamp: new Date().toISOString()
+    })
+  })
+
+  // Admin routes, protected by ADMIN_TOKEN and disabled when it isn't set
+  const requireAdmin = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const token = process.env.ADMIN_TOKEN
+    if (!token) {
+      res.status(503).json({ error: 'Admin API disabled, set ADMIN_TOKEN to enable it' })
+      return
+    }
+    if (req.headers.authorization !== `Bearer ${token}`) {
+      res.status(401).json({ error: 'Unauthorized' })
+      return
+    }
+    next()
+  }
+
+  const requireComponent = (name: keyof IngestionComponents, label: string) =>
+    (req: express.Request, res: express.Response, next: express.NextFunction) => {
+      if (!ingestion[name]) {
+        res.status(503).json({ error: `${label} not available` })
+        return
+      }
+      next()
+    }
+
+  const requireCollector = requireComponent('collector', 'Collector')
+  const requireDeadLetters = requireComponent('deadLetters', 'Dead letter queue')
+
+  const requireNumericId = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (!/^\d+$/.test(req.params.id)) {
+      res.status(400).json({ error: 'id must be a number' })
+      return
+    }
+    next()
+  }
+
+  // Changing the live Jetstream subscription
+  router.get('/admin/subscription', requireAdmin, requireCollector, (req, res) => {
+    res.json(ingestion.collector!.getSubscription())
+  })
+
+  // Replace any of wantedCollections, wantedDids, maxMessageSizeBytes
+  router.put('/admin/subscription', requireAdmin, requireCollector, express.json(), (req, res) => {
+    try {
+      const { wantedCollections, wantedDids, maxMessageSizeBytes } = req.body || {}
+      if (wantedCollections !== undefined && !isStringArray(wantedCollections)) {
+        res.status(400).json({ error: 'wantedCollections must be an array of strings' })
+        return
+      }
+      if (wantedDids !== undefined && !isDidArray(wantedDids)) {
+        res.status(400).json({ error: 'wantedDids must be an array of DIDs' })
+        return
+      }
+      if (maxMessageSizeBytes !== undefined && !Number.isInteger(maxMessageSizeBytes)) {
+        res.status(400).json({ error: 'maxMessageSizeBytes must be an integer' })
+        return
+      }
+
+      const subscription = ingestion.collector!.updateSubscription({
+        wantedCollections,
+        wantedDids,
+        maxMessageSizeBytes
+      })
+      res.json(subscription)
+    } catch (error) {
+      console.error('Error updating subscription:', error)
+      res.status(400).json({ error: (error as Error).message })
+    }
+  })
+
+  // Add or remove DIDs from the tracked cohort, keeping the rest
+  router.post('/admin/subscription/dids', requireAdmin, requireCollector, express.json(), (req, res) => {
+    try {
+      const add = req.body?.add ?? []
+      const remove = req.body?.remove ?? []
+      if (!isDidArray(add) || !isDidArray(remove)) {
+        res.status(400).json({ error: 'add and remove must be arrays of DIDs' })
+        return
+      }
+
+      const current = ingestion.collector!.getSubscription().wantedDids || []
+      const wantedDids = Array.from(new Set([...current, ...add])).filter(did => !remove.includes(did))
+
+      res.json(ingestion.collector!.updateSubscription({ wantedDids }))
+    } catch (error) {
+      console.error('Error updating subscription DIDs:', error)
+      res.status(400).json({ error: (error as Error).message })
+    }
+  })
+
+  // Events that failed processing; filter with ?status=pending|failed|resolved|discarded&handler=
+  router.get('/admin/dead-letters', requireAdmin, requireDeadLetters, async (req, res) => {
+    try {
+      const [entries, counts] = await Promise.all([
+        ingestion.deadLetters!.list({
+          status: req.query.status as DeadLetterStatus | undefined,
+          handler: req.query.handler as string | undefined,
+          limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+          offset: req.query.offset ? parseInt(req.query.offset as string) : undefined
+        }),
+        ingestion.deadLetters!.getCounts()
+      ])
+      res.json({ counts, entries })
+    } catch (error) {
+      console.error('Error listing dead letters:', error)
+      res.status(500).json({ error: 'Failed to list dead letters' })
+    }
+  })
+
+  // Reprocess one entry now, regardless of its backoff or attempt count
+  router.post('/admin/dead-letters/:id/retry', requireAdmin, requireDeadLetters, requireNumericId, async (req, res) => {
+    try {
+      const entry = await ingestion.deadLetters!.retry(parseInt(req.params.id))
+      if (!entry) {
+        res.status(404).json({ error: 'Dead letter not found or already resolved' })
+        return
+      }
+      res.json(entry)
+    } catch (error) {
+      console.error('Error retrying dead letter:', error)
+      res.status(500).json({ error: (error as Error).message })
+    }
+  })
+
+  router.post('/admin/dead-letters/:id/discard', requireAdmin, requireDeadLetters, requireNumericId, async (req, res) => {
+    try {
+      const discarded = await ingestion.deadLetters!.discard(parseInt(req.params.id))
+      if (!discarded) {
+        res.status(404).json({ error: 'Dead letter not found or already resolved' })
+        return
+      }
+      res.json({ discarded: true })
+    } catch (error) {
+      console.error('Error discarding dead letter:', error)
+      res.status(500).json({ error: 'Failed to discard dead letter' })
+    }
+  })
+
   app.use('/api', router);
-}
\ No newline at end of file
+}
+
+function isStringArray(value: any): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
+
+function isDidArray(value: any): value is string[] {
+  return isStringArray(value) && value.every(item => item.startsWith('did:'))
+}
@@ -0,0 +1,61 @@
+import express from 'express';
+import { FeedGenerator, decodeCursor } from '../feed-generator';
+
+/**
+ * Mount the feed generator's XRPC methods at /xrpc, plus the did:web
+ * document the AppView fetches to find this service
+ *
+ * @param app The express app
+ * @param generator The configured feeds
+ * @param hostname Public hostname, when the service DID is did:web:<hostname>
+ */
+export function setupFeedRoutes(app: express.Application, generator: FeedGenerator, hostname?: string) {
+  const router = express.Router();
+
+  router.get('/xrpc/app.bsky.feed.describeFeedGenerator', (req, res) => {
+    res.json(generator.describe());
+  });
+
+  router.get('/xrpc/app.bsky.feed.getFeedSkeleton', async (req, res) => {
+    const feed = generator.findFeed(String(req.query.feed || ''));
+    if (!feed) {
+      res.status(400).json({ error: 'UnknownFeed', message: 'Unknown feed' });
+      return;
+    }
+
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+    if (isNaN(limit)) {
+      res.status(400).json({ error: 'InvalidRequest', message: 'limit must be an integer' });
+      return;
+    }
+
+    const cursor = req.query.cursor ? decodeCursor(String(req.query.cursor)) : null;
+    if (req.query.cursor && !cursor) {
+      res.status(400).json({ error: 'InvalidRequest', message: 'Malformed cursor' });
+      return;
+    }
+
+    try {
+      res.json(await generator.getSkeleton(feed, limit, cursor));
+    } catch (error) {
+      console.error('Error ranking feed:', error);
+      res.status(500).json({ error: 'InternalServerError', message: 'Failed to rank feed' });
+    }
+  });
+
+  if (hostname && generator.serviceDid === `did:web:${hostname}`) {
+    router.get('/.well-known/did.json', (req, res) => {
+      res.json({
+        '@context': ['https://www.w3.org/ns/did/v1'],
+        id: generator.serviceDid,
+        service: [{
+          id: '#bsky_fg',
+          type: 'BskyFeedGenerator',
+          serviceEndpoint: `https://${hostname}`
+        }]
+      });
+    });
+  }
+
+  app.use(router);
+}
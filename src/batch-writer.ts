@@ -0,0 +1,360 @@
+import { Pool, PoolClient } from 'pg';
+import events from 'events';
+
+/**
+ * How rows for one table are written
+ */
+export interface BatchTableSpec {
+  // The table to insert into, when it differs from the registered name
+  // (e.g. a second spec for the same table with different conflict handling)
+  table?: string;
+  columns: string[];
+  // Columns filled by an SQL expression instead of a row value, given the
+  // row's placeholders by column, e.g. a lookup in another table
+  computed?: Record<string, (placeholders: Record<string, string>) => string>;
+  // Everything after VALUES (...), e.g. "ON CONFLICT (uri) DO UPDATE SET ..."
+  onConflict?: string;
+  // Rows with the same key in one batch are collapsed to the last one, since
+  // a single INSERT ... ON CONFLICT DO UPDATE cannot touch a row twice
+  key: (row: any) => string;
+  // The DID whose ordering this row participates in
+  did: (row: any) => string;
+}
+
+/**
+ * Configuration for the BatchWriter
+ */
+export interface BatchWriterConfig {
+  maxBatchSize?: number;
+  flushIntervalMs?: number;
+  statsIntervalMs?: number;
+}
+
+/**
+ * Throughput counters, cumulative since the writer was created
+ */
+export interface BatchWriterStats {
+  flushes: number;
+  rowsWritten: Record<string, number>;
+  rowsFailed: Record<string, number>;
+  pendingRows: number;
+  lastFlushMs: number;
+  lastFlushRows: number;
+}
+
+// Postgres rejects a query with more bind parameters than this
+const MAX_BIND_PARAMETERS = 65535;
+
+interface PendingRow {
+  row: any;
+  resolve: () => void;
+  reject: (err: any) => void;
+}
+
+/**
+ * BatchWriter buffers normalized rows per table and writes them with
+ * multi-row INSERTs when a size or time threshold is reached.
+ *
+ * write() resolves once the row is durably stored, so callers keep their
+ * existing error handling. Tables are flushed in registration order, and
+ * barrier() lets non-batched writes for a DID wait until that DID's
+ * buffered rows are stored.
+ */
+export class BatchWriter extends events.EventEmitter {
+  private pgPool: Pool;
+  private config: Required<BatchWriterConfig>;
+  private specs: Map<string, BatchTableSpec> = new Map();
+  private buffers: Map<string, PendingRow[]> = new Map();
+  private pendingDids: Set<string> = new Set();
+  private inFlightDids: Set<string> = new Set();
+  private inFlightBatches: Map<string, PendingRow[]> = new Map();
+  private pendingRows: number = 0;
+  private flushChain: Promise<void> = Promise.resolve();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private statsTimer: NodeJS.Timeout | null = null;
+  private stats: BatchWriterStats = {
+    flushes: 0,
+    rowsWritten: {},
+    rowsFailed: {},
+    pendingRows: 0,
+    lastFlushMs: 0,
+    lastFlushRows: 0
+  };
+  private rowsSinceLastLog: number = 0;
+
+  constructor(pgPool: Pool, config: BatchWriterConfig = {}) {
+    super();
+
+    this.pgPool = pgPool;
+    this.config = {
+      maxBatchSize: config.maxBatchSize || 500,
+      flushIntervalMs: config.flushIntervalMs || 1000,
+      statsIntervalMs: config.statsIntervalMs || 60_000
+    };
+  }
+
+  /**
+   * Register a table that rows can be written to
+   *
+   * @param table The table name
+   * @param spec Columns and conflict handling for the table
+   */
+  registerTable(table: string, spec: BatchTableSpec): void {
+    this.specs.set(table, spec);
+    this.buffers.set(table, []);
+    this.stats.rowsWritten[table] = 0;
+    this.stats.rowsFailed[table] = 0;
+  }
+
+  /**
+   * Start the periodic flush and stats timers
+   */
+  start(): void {
+    if (this.flushTimer) return;
+
+    this.flushTimer = setInterval(() => {
+      if (this.pendingRows > 0) {
+        this.flush().catch(err => console.error('Error in scheduled flush:', err));
+      }
+    }, this.config.flushIntervalMs);
+
+    this.statsTimer = setInterval(() => this.logStats(), this.config.statsIntervalMs);
+  }
+
+  /**
+   * Flush everything still buffered and stop the timers
+   */
+  async close(): Promise<void> {
+    if (this.flushTimer) clearInterval(this.flushTimer);
+    if (this.statsTimer) clearInterval(this.statsTimer);
+    this.flushTimer = null;
+    this.statsTimer = null;
+
+    await this.flush();
+    this.logStats();
+  }
+
+  /**
+   * Buffer a row for writing
+   *
+   * @param table A registered table name
+   * @param row The row, keyed by column name
+   * @returns A promise that resolves once the row is stored
+   */
+  write(table: string, row: any): Promise<void> {
+    const spec = this.specs.get(table);
+    const buffer = this.buffers.get(table);
+    if (!spec || !buffer) {
+      return Promise.reject(new Error(`Table ${table} is not registered with the batch writer`));
+    }
+
+    const promise = new Promise<void>((resolve, reject) => {
+      buffer.push({ row, resolve, reject });
+    });
+
+    this.pendingDids.add(spec.did(row));
+    this.pendingRows++;
+
+    if (this.pendingRows >= this.config.maxBatchSize) {
+      this.flush().catch(err => console.error('Error in size-triggered flush:', err));
+    }
+
+    return promise;
+  }
+
+  /**
+   * Wait until all buffered rows for a DID are stored
+   * Call before a direct write that must observe them (deletes, edits, status changes)
+   *
+   * @param did The DID about to be written directly
+   */
+  async barrier(did: string): Promise<void> {
+    if (this.pendingDids.has(did) || this.inFlightDids.has(did)) {
+      await this.flush();
+    }
+  }
+
+  /**
+   * Find a row that has been written but not stored yet
+   *
+   * @param table A registered table name
+   * @param key The row key, as computed by the table's key()
+   * @returns The most recently buffered row with that key, or null
+   */
+  findPending(table: string, key: string): any | null {
+    const spec = this.specs.get(table);
+    if (!spec) return null;
+
+    for (const pending of [this.buffers.get(table) || [], this.inFlightBatches.get(table) || []]) {
+      for (let i = pending.length - 1; i >= 0; i--) {
+        if (spec.key(pending[i].row) === key) return pending[i].row;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Write all currently buffered rows
+   * Flushes are serialized, so rows are stored in the order they were buffered
+   */
+  flush(): Promise<void> {
+    this.flushChain = this.flushChain.then(() => this.flushBuffers());
+    return this.flushChain;
+  }
+
+  /**
+   * Get throughput counters
+   */
+  getStats(): BatchWriterStats {
+    return {
+      ...this.stats,
+      rowsWritten: { ...this.stats.rowsWritten },
+      rowsFailed: { ...this.stats.rowsFailed },
+      pendingRows: this.pendingRows
+    };
+  }
+
+  private async flushBuffers(): Promise<void> {
+    if (this.pendingRows === 0) return;
+
+    // Take ownership of the current buffers so new writes start a fresh batch
+    const batches: [string, PendingRow[]][] = [];
+    for (const [table, buffer] of this.buffers.entries()) {
+      if (buffer.length > 0) {
+        batches.push([table, buffer]);
+        this.buffers.set(table, []);
+      }
+    }
+
+    this.inFlightDids = this.pendingDids;
+    this.inFlightBatches = new Map(batches);
+    this.pendingDids = new Set();
+    const rowCount = this.pendingRows;
+    this.pendingRows = 0;
+
+    const startedAt = Date.now();
+    let client: PoolClient | null = null;
+
+    try {
+      client = await this.pgPool.connect();
+
+      for (const [table, pending] of batches) {
+        await this.writeBatch(client, table, pending);
+      }
+    } catch (err) {
+      // Connection failure: nothing in this flush was written
+      console.error('Error flushing batch:', err);
+      for (const [table, pending] of batches) {
+        this.stats.rowsFailed[table] += pending.length;
+        pending.forEach(p => p.reject(err));
+      }
+    } finally {
+      if (client) client.release();
+      this.inFlightDids = new Set();
+      this.inFlightBatches = new Map();
+    }
+
+    this.stats.flushes++;
+    this.stats.lastFlushMs = Date.now() - startedAt;
+    this.stats.lastFlushRows = rowCount;
+    this.rowsSinceLastLog += rowCount;
+    this.emit('flush', { rows: rowCount, durationMs: this.stats.lastFlushMs });
+  }
+
+  /**
+   * Write one table's batch in INSERTs that fit Postgres's bind parameter limit
+   */
+  private async writeBatch(client: PoolClient, table: string, pending: PendingRow[]): Promise<void> {
+    const spec = this.specs.get(table)!;
+
+    const grouped = new Map<string, PendingRow[]>();
+    for (const p of pending) {
+      const key = spec.key(p.row);
+      const group = grouped.get(key);
+      if (group) {
+        group.push(p);
+      } else {
+        grouped.set(key, [p]);
+      }
+    }
+
+    const groups = Array.from(grouped.values());
+    const rowsPerInsert = Math.floor(MAX_BIND_PARAMETERS / spec.columns.length);
+
+    for (let i = 0; i < groups.length; i += rowsPerInsert) {
+      await this.writeGroups(client, table, spec, groups.slice(i, i + rowsPerInsert));
+    }
+  }
+
+  /**
+   * Insert one row per group, falling back to row-by-row if the INSERT fails
+   * so one bad row (e.g. a foreign key violation) doesn't lose the rest
+   */
+  private async writeGroups(client: PoolClient, table: string, spec: BatchTableSpec, groups: PendingRow[][]): Promise<void> {
+    const rows = groups.map(group => group[group.length - 1].row);
+
+    try {
+      await this.insertRows(client, table, spec, rows);
+      this.stats.rowsWritten[table] += rows.length;
+      groups.forEach(group => group.forEach(p => p.resolve()));
+      return;
+    } catch (err) {
+      if (rows.length === 1) {
+        this.stats.rowsFailed[table]++;
+        groups[0].forEach(p => p.reject(err));
+        return;
+      }
+      console.warn(`Batch insert into ${table} failed, retrying ${rows.length} rows individually:`, (err as Error).message);
+    }
+
+    for (let i = 0; i < rows.length; i++) {
+      try {
+        await this.insertRows(client, table, spec, [rows[i]]);
+        this.stats.rowsWritten[table]++;
+        groups[i].forEach(p => p.resolve());
+      } catch (err) {
+        this.stats.rowsFailed[table]++;
+        groups[i].forEach(p => p.reject(err));
+      }
+    }
+  }
+
+  private async insertRows(client: PoolClient, table: string, spec: BatchTableSpec, rows: any[]): Promise<void> {
+    const computed = Object.entries(spec.computed || {});
+    const params: any[] = [];
+    const tuples = rows.map(row => {
+      const placeholders: Record<string, string> = {};
+      for (const column of spec.columns) {
+        params.push(row[column]);
+        placeholders[column] = `$${params.length}`;
+      }
+      const values = [
+        ...Object.values(placeholders),
+        ...computed.map(([, expression]) => expression(placeholders))
+      ];
+      return `(${values.join(', ')})`;
+    });
+
+    const columns = [...spec.columns, ...computed.map(([column]) => column)];
+    await client.query(`
+      INSERT INTO ${spec.table || table} (${columns.join(', ')})
+      VALUES ${tuples.join(',\n')}
+      ${spec.onConflict || ''}
+    `, params);
+  }
+
+  private logStats(): void {
+    const seconds = this.config.statsIntervalMs / 1000;
+    const rate = (this.rowsSinceLastLog / seconds).toFixed(1);
+    this.rowsSinceLastLog = 0;
+
+    const stats = this.getStats();
+    console.log(
+      `Batch writer: ${rate} rows/s, ${stats.flushes} flushes, ` +
+      `last flush ${stats.lastFlushRows} rows in ${stats.lastFlushMs}ms, ` +
+      `${stats.pendingRows} pending, written ${JSON.stringify(stats.rowsWritten)}, ` +
+      `failed ${JSON.stringify(stats.rowsFailed)}`
+    );
+    this.emit('stats', stats);
+  }
+}
@@ -0,0 +1,67 @@
+interface TrackedEvent {
+  timeUs: number;
+  done: boolean;
+}
+
+/**
+ * CursorTracker follows events from receipt to completion and reports the
+ * low-watermark: the newest time_us at which every earlier event is done.
+ * Checkpointing the watermark (instead of the newest cursor seen) means a
+ * restart never skips an event that was received but not yet stored.
+ */
+export class CursorTracker {
+  private inFlight: TrackedEvent[] = [];
+  private byMessage: WeakMap<object, TrackedEvent> = new WeakMap();
+  private watermark: number;
+
+  /**
+   * @param initialCursor The cursor already known to be complete (e.g. the saved checkpoint)
+   */
+  constructor(initialCursor: number = 0) {
+    this.watermark = initialCursor;
+  }
+
+  /**
+   * Start tracking a received message
+   *
+   * @param message The message, used as the handle for complete()
+   * @param timeUs The message's time_us
+   */
+  begin(message: object, timeUs: number): void {
+    const event = { timeUs, done: false };
+    this.inFlight.push(event);
+    this.byMessage.set(message, event);
+  }
+
+  /**
+   * Mark a message as durably processed
+   *
+   * @param message The message passed to begin()
+   */
+  complete(message: object): void {
+    const event = this.byMessage.get(message);
+    if (!event) return;
+
+    event.done = true;
+    this.byMessage.delete(message);
+
+    while (this.inFlight.length > 0 && this.inFlight[0].done) {
+      const head = this.inFlight.shift()!;
+      this.watermark = Math.max(this.watermark, head.timeUs);
+    }
+  }
+
+  /**
+   * The newest time_us that is safe to resume after
+   */
+  getWatermark(): number {
+    return this.watermark;
+  }
+
+  /**
+   * Number of received messages not yet completed
+   */
+  getInFlightCount(): number {
+    return this.inFlight.length;
+  }
+}
@@ -0,0 +1,54 @@
+import dotenv from 'dotenv';
+import { Pool } from 'pg';
+import { Migrator } from './migrator';
+import { migrations } from './migrations';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Schema maintenance commands:
+ *   npm run db:migrate          apply pending migrations
+ *   npm run db:reset -- --force drop everything and re-migrate (local dev only)
+ */
+const run = async () => {
+  const command = process.argv[2];
+  const force = process.argv.includes('--force');
+
+  const pgPool = new Pool({
+    host: process.env.PG_HOST || 'localhost',
+    port: parseInt(process.env.PG_PORT || '5432'),
+    database: process.env.PG_DATABASE || 'bluesky_collector',
+    user: process.env.PG_USER || 'postgres',
+    password: process.env.PG_PASSWORD || '',
+    ssl: process.env.PG_SSL === 'true'
+  });
+
+  const migrator = new Migrator(pgPool, migrations);
+
+  try {
+    switch (command) {
+      case 'migrate':
+        await migrator.migrate();
+        break;
+      case 'reset':
+        if (!force) {
+          console.error('Reset drops all collected data. Re-run with --force to confirm.');
+          process.exitCode = 1;
+          break;
+        }
+        await migrator.reset();
+        break;
+      default:
+        console.error(`Unknown command: ${command}. Expected "migrate" or "reset".`);
+        process.exitCode = 1;
+    }
+  } catch (err) {
+    console.error(`Database ${command} failed:`, err);
+    process.exitCode = 1;
+  } finally {
+    await pgPool.end();
+  }
+};
+
+run();
@@ -0,0 +1,92 @@
+import { Migration } from '../migrator';
+
+/**
+ * Core collector tables, previously created by JetstreamCollector.initDb()
+ */
+export const collectorSchema: Migration = {
+  version: 1,
+  name: 'collector-schema',
+  up: `
+    CREATE TABLE IF NOT EXISTS users (
+      did TEXT PRIMARY KEY,
+      handle TEXT NOT NULL,
+      display_name TEXT,
+      description TEXT,
+      avatar_url TEXT,
+      follower_count INTEGER,
+      following_count INTEGER,
+      post_count INTEGER,
+      activity_level FLOAT,
+      account_age_days INTEGER,
+      CONSTRAINT idx_users_handle UNIQUE (handle)
+    );
+
+    CREATE TABLE IF NOT EXISTS posts (
+      id SERIAL PRIMARY KEY,
+      did TEXT NOT NULL,
+      rkey TEXT NOT NULL,
+      uri TEXT NOT NULL,
+      cid TEXT NOT NULL,
+      text TEXT,
+      created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      hour_timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+      indexed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      text_length INTEGER,
+      has_image BOOLEAN,
+      image_count SMALLINT,
+      has_external_link BOOLEAN,
+      has_mention BOOLEAN,
+      mention_count SMALLINT,
+      hashtag_count SMALLINT,
+      reply_to TEXT,
+      reply_root TEXT,
+      thread_depth SMALLINT,
+      language TEXT,
+      UNIQUE(did, rkey),
+      CONSTRAINT idx_posts_uri UNIQUE (uri)
+    );
+
+    CREATE TABLE IF NOT EXISTS engagements (
+      id SERIAL PRIMARY KEY,
+      post_uri TEXT NOT NULL REFERENCES posts(uri),
+      actor_did TEXT NOT NULL REFERENCES users(did),
+      type TEXT NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      reply_uri TEXT,
+      time_to_engage INTERVAL,
+      actor_follows_author BOOLEAN,
+      raw_data JSONB,
+      UNIQUE(post_uri, actor_did, type)
+    );
+
+    CREATE TABLE IF NOT EXISTS follows (
+      follower_did TEXT NOT NULL REFERENCES users(did),
+      followed_did TEXT NOT NULL REFERENCES users(did),
+      created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      PRIMARY KEY (follower_did, followed_did)
+    );
+
+    CREATE TABLE IF NOT EXISTS tombstones (
+      id BIGSERIAL PRIMARY KEY,
+      did TEXT NOT NULL,
+      tombstone_data JSONB NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS feature_vectors (
+      id SERIAL PRIMARY KEY,
+      post_uri TEXT NOT NULL REFERENCES posts(uri),
+      computed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      text_embedding FLOAT[],
+      user_embedding FLOAT[],
+      engagement_features JSONB,
+      UNIQUE(post_uri, computed_at)
+    );
+
+    CREATE TABLE IF NOT EXISTS cursor_state (
+      id TEXT PRIMARY KEY,
+      cursor_value BIGINT NOT NULL,
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+  `
+};
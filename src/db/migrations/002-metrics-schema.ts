@@ -0,0 +1,29 @@
+import { Migration } from '../migrator';
+
+/**
+ * Metrics schema, previously created by AggregationService.initializeMetricsSchema()
+ */
+export const metricsSchema: Migration = {
+  version: 2,
+  name: 'metrics-schema',
+  up: `
+    CREATE SCHEMA IF NOT EXISTS metrics;
+
+    CREATE TABLE IF NOT EXISTS metrics.hourly_post_metrics (
+      hour_timestamp TIMESTAMP WITH TIME ZONE PRIMARY KEY,
+      post_count INTEGER NOT NULL,
+      unique_author_count INTEGER NOT NULL,
+      has_image_count INTEGER NOT NULL DEFAULT 0,
+      has_link_count INTEGER NOT NULL DEFAULT 0,
+      text_only_count INTEGER NOT NULL DEFAULT 0,
+      avg_text_length FLOAT,
+      max_text_length INTEGER,
+      min_text_length INTEGER,
+      created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_hourly_post_metrics_timestamp
+    ON metrics.hourly_post_metrics (hour_timestamp);
+  `
+};
@@ -0,0 +1,25 @@
+import { Migration } from '../migrator';
+
+/**
+ * Track record keys on engagements and follows so delete commits can be
+ * matched back to the stored row, and soft-delete instead of dropping rows.
+ */
+export const softDeletes: Migration = {
+  version: 3,
+  name: 'soft-deletes',
+  up: `
+    ALTER TABLE posts ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+    ALTER TABLE engagements ADD COLUMN IF NOT EXISTS rkey TEXT;
+    ALTER TABLE engagements ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+    ALTER TABLE follows ADD COLUMN IF NOT EXISTS rkey TEXT;
+    ALTER TABLE follows ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+    CREATE INDEX IF NOT EXISTS idx_engagements_actor_rkey
+    ON engagements (actor_did, rkey);
+
+    CREATE INDEX IF NOT EXISTS idx_follows_follower_rkey
+    ON follows (follower_did, rkey);
+  `
+};
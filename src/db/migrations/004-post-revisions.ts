@@ -0,0 +1,30 @@
+import { Migration } from '../migrator';
+
+/**
+ * History of post versions superseded by update commits
+ */
+export const postRevisions: Migration = {
+  version: 4,
+  name: 'post-revisions',
+  up: `
+    ALTER TABLE posts ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP WITH TIME ZONE;
+    ALTER TABLE posts ADD COLUMN IF NOT EXISTS revision_count INTEGER NOT NULL DEFAULT 0;
+
+    CREATE TABLE IF NOT EXISTS post_revisions (
+      id BIGSERIAL PRIMARY KEY,
+      post_uri TEXT NOT NULL REFERENCES posts(uri),
+      cid TEXT NOT NULL,
+      text TEXT,
+      text_length INTEGER,
+      has_image BOOLEAN,
+      has_external_link BOOLEAN,
+      language TEXT,
+      indexed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      superseded_by_cid TEXT NOT NULL,
+      superseded_at TIMESTAMP WITH TIME ZONE NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_post_revisions_post_uri
+    ON post_revisions (post_uri, superseded_at);
+  `
+};
@@ -0,0 +1,35 @@
+import { Migration } from '../migrator';
+
+/**
+ * Account status from Jetstream account events, and the user timestamp
+ * columns the processor already writes
+ */
+export const accountStatus: Migration = {
+  version: 5,
+  name: 'account-status',
+  up: `
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS first_seen_at TIMESTAMP WITH TIME ZONE;
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS last_updated_at TIMESTAMP WITH TIME ZONE;
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS active BOOLEAN NOT NULL DEFAULT true;
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS account_status TEXT;
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS status_updated_at TIMESTAMP WITH TIME ZONE;
+
+    ALTER TABLE posts ADD COLUMN IF NOT EXISTS author_active BOOLEAN NOT NULL DEFAULT true;
+
+    CREATE TABLE IF NOT EXISTS account_status_history (
+      id BIGSERIAL PRIMARY KEY,
+      did TEXT NOT NULL,
+      active BOOLEAN NOT NULL,
+      status TEXT,
+      seq BIGINT,
+      event_time TIMESTAMP WITH TIME ZONE,
+      recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_account_status_history_did
+    ON account_status_history (did, recorded_at);
+
+    CREATE INDEX IF NOT EXISTS idx_posts_did
+    ON posts (did);
+  `
+};
@@ -0,0 +1,32 @@
+import { Migration } from '../migrator';
+
+/**
+ * Events whose processing failed, kept for retry and inspection
+ */
+export const deadLetters: Migration = {
+  version: 6,
+  name: 'dead-letters',
+  up: `
+    CREATE TABLE IF NOT EXISTS dead_letters (
+      id BIGSERIAL PRIMARY KEY,
+      handler TEXT NOT NULL,
+      event JSONB NOT NULL,
+      event_did TEXT,
+      event_time_us BIGINT,
+      error TEXT NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 1,
+      status TEXT NOT NULL DEFAULT 'pending',
+      first_failed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+      last_failed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+      next_retry_at TIMESTAMP WITH TIME ZONE,
+      resolved_at TIMESTAMP WITH TIME ZONE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_dead_letters_pending
+    ON dead_letters (next_retry_at)
+    WHERE status = 'pending';
+
+    CREATE INDEX IF NOT EXISTS idx_dead_letters_status
+    ON dead_letters (status, last_failed_at);
+  `
+};
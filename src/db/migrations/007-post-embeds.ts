@@ -0,0 +1,34 @@
+import { Migration } from '../migrator';
+
+/**
+ * Structured embed columns on posts (links, quotes, video, image alt text)
+ * and the matching hourly metrics
+ */
+export const postEmbeds: Migration = {
+  version: 7,
+  name: 'post-embeds',
+  up: `
+    ALTER TABLE posts ADD COLUMN IF NOT EXISTS embed_type TEXT;
+    ALTER TABLE posts ADD COLUMN IF NOT EXISTS external_url TEXT;
+    ALTER TABLE posts ADD COLUMN IF NOT EXISTS external_domain TEXT;
+    ALTER TABLE posts ADD COLUMN IF NOT EXISTS external_title TEXT;
+    ALTER TABLE posts ADD COLUMN IF NOT EXISTS link_count INTEGER NOT NULL DEFAULT 0;
+    ALTER TABLE posts ADD COLUMN IF NOT EXISTS quote_uri TEXT;
+    ALTER TABLE posts ADD COLUMN IF NOT EXISTS has_video BOOLEAN NOT NULL DEFAULT false;
+    ALTER TABLE posts ADD COLUMN IF NOT EXISTS video_alt TEXT;
+    ALTER TABLE posts ADD COLUMN IF NOT EXISTS image_alt_count INTEGER NOT NULL DEFAULT 0;
+
+    CREATE INDEX IF NOT EXISTS idx_posts_quote_uri
+    ON posts (quote_uri)
+    WHERE quote_uri IS NOT NULL;
+
+    CREATE INDEX IF NOT EXISTS idx_posts_external_domain
+    ON posts (external_domain)
+    WHERE external_domain IS NOT NULL;
+
+    ALTER TABLE metrics.hourly_post_metrics ADD COLUMN IF NOT EXISTS has_quote_count INTEGER NOT NULL DEFAULT 0;
+    ALTER TABLE metrics.hourly_post_metrics ADD COLUMN IF NOT EXISTS has_video_count INTEGER NOT NULL DEFAULT 0;
+    ALTER TABLE metrics.hourly_post_metrics ADD COLUMN IF NOT EXISTS unique_domain_count INTEGER NOT NULL DEFAULT 0;
+    ALTER TABLE metrics.hourly_post_metrics ADD COLUMN IF NOT EXISTS image_alt_coverage FLOAT;
+  `
+};
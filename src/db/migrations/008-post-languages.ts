@@ -0,0 +1,21 @@
+import { Migration } from '../migrator';
+
+/**
+ * All declared post languages, and where the primary language came from
+ */
+export const postLanguages: Migration = {
+  version: 8,
+  name: 'post-languages',
+  up: `
+    ALTER TABLE posts ADD COLUMN IF NOT EXISTS languages TEXT[] NOT NULL DEFAULT '{}';
+    -- 'declared' (record.langs), 'detected' (n-gram fallback) or 'unknown'
+    ALTER TABLE posts ADD COLUMN IF NOT EXISTS language_source TEXT;
+    ALTER TABLE posts ADD COLUMN IF NOT EXISTS language_confidence REAL;
+
+    CREATE INDEX IF NOT EXISTS idx_posts_languages
+    ON posts USING GIN (languages);
+
+    CREATE INDEX IF NOT EXISTS idx_posts_language_created
+    ON posts (language, created_at);
+  `
+};
@@ -0,0 +1,40 @@
+import { Migration } from '../migrator';
+
+/**
+ * Thread depth resolution and per-conversation counts
+ */
+export const threadTracking: Migration = {
+  version: 9,
+  name: 'thread-tracking',
+  up: `
+    -- false while a reply's depth is provisional because an ancestor hasn't been seen
+    ALTER TABLE posts ADD COLUMN IF NOT EXISTS thread_depth_resolved BOOLEAN NOT NULL DEFAULT true;
+
+    -- Depths used to be hard-coded to 1; only direct replies to the root were right
+    UPDATE posts
+    SET thread_depth_resolved = false
+    WHERE reply_to IS NOT NULL AND reply_to <> reply_root;
+
+    CREATE INDEX IF NOT EXISTS idx_posts_reply_root
+    ON posts (reply_root)
+    WHERE reply_root IS NOT NULL;
+
+    CREATE INDEX IF NOT EXISTS idx_posts_unresolved_depth
+    ON posts (reply_to)
+    WHERE NOT thread_depth_resolved;
+
+    CREATE TABLE IF NOT EXISTS thread_stats (
+      root_uri TEXT PRIMARY KEY,
+      reply_count INTEGER NOT NULL DEFAULT 0,
+      -- Replies directly to the root, as opposed to deeper sub-threads
+      direct_reply_count INTEGER NOT NULL DEFAULT 0,
+      participant_count INTEGER NOT NULL DEFAULT 0,
+      max_depth SMALLINT NOT NULL DEFAULT 0,
+      last_reply_at TIMESTAMP WITH TIME ZONE,
+      updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_thread_stats_last_reply
+    ON thread_stats (last_reply_at);
+  `
+};
@@ -0,0 +1,18 @@
+import { Migration } from '../migrator';
+
+/**
+ * Track which engagements have time_to_engage and actor_follows_author filled in
+ */
+export const engagementEnrichment: Migration = {
+  version: 10,
+  name: 'engagement-enrichment',
+  up: `
+    -- NULL until the engaged post is known and both fields are computed;
+    -- existing rows start out NULL so the catch-up job backfills them
+    ALTER TABLE engagements ADD COLUMN IF NOT EXISTS enriched_at TIMESTAMP WITH TIME ZONE;
+
+    CREATE INDEX IF NOT EXISTS idx_engagements_unenriched
+    ON engagements (post_uri)
+    WHERE enriched_at IS NULL;
+  `
+};
@@ -0,0 +1,29 @@
+import { Migration } from '../migrator';
+
+/**
+ * Placeholder users and posts for references that arrive before their target,
+ * so engagements and follows don't fail their foreign keys
+ */
+export const referenceStubs: Migration = {
+  version: 11,
+  name: 'reference-stubs',
+  up: `
+    -- Stub users only know their DID; the unique constraint still allows many NULLs
+    ALTER TABLE users ALTER COLUMN handle DROP NOT NULL;
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS is_stub BOOLEAN NOT NULL DEFAULT false;
+
+    -- Stub posts only know their URI; NULL created_at keeps them out of time-based metrics
+    ALTER TABLE posts ALTER COLUMN cid DROP NOT NULL;
+    ALTER TABLE posts ALTER COLUMN created_at DROP NOT NULL;
+    ALTER TABLE posts ALTER COLUMN hour_timestamp DROP NOT NULL;
+    ALTER TABLE posts ADD COLUMN IF NOT EXISTS is_stub BOOLEAN NOT NULL DEFAULT false;
+
+    CREATE INDEX IF NOT EXISTS idx_users_stub
+    ON users (did)
+    WHERE is_stub;
+
+    CREATE INDEX IF NOT EXISTS idx_posts_stub
+    ON posts (uri)
+    WHERE is_stub;
+  `
+};
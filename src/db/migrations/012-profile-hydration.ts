@@ -0,0 +1,16 @@
+import { Migration } from '../migrator';
+
+/**
+ * Track when each user's profile was last fetched from the AppView,
+ * so the hydrator can find users that were never hydrated or have gone stale
+ */
+export const profileHydration: Migration = {
+  version: 12,
+  name: 'profile-hydration',
+  up: `
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS hydrated_at TIMESTAMP WITH TIME ZONE;
+
+    CREATE INDEX IF NOT EXISTS idx_users_hydrated_at
+    ON users (hydrated_at NULLS FIRST);
+  `
+};
@@ -0,0 +1,14 @@
+import { Migration } from '../migrator';
+
+/**
+ * Record when a user's handle was last verified against their DID document,
+ * since handles are now only stored once they resolve back to the DID
+ */
+export const handleVerification: Migration = {
+  version: 13,
+  name: 'handle-verification',
+  up: `
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS handle_verified_at TIMESTAMP WITH TIME ZONE;
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS pds_endpoint TEXT;
+  `
+};
@@ -0,0 +1,24 @@
+import { Migration } from '../migrator';
+
+/**
+ * Support for the feature pipeline: a version for the embedding scheme,
+ * the horizon each row was computed at, and indexes for finding due posts
+ * and author history
+ */
+export const featureVectors: Migration = {
+  version: 14,
+  name: 'feature-vectors',
+  up: `
+    -- Rows from different embedding schemes aren't comparable
+    ALTER TABLE feature_vectors ADD COLUMN IF NOT EXISTS feature_version INTEGER NOT NULL DEFAULT 1;
+    -- The largest horizon that had passed when the row was computed, e.g. '1h'
+    ALTER TABLE feature_vectors ADD COLUMN IF NOT EXISTS horizon TEXT;
+
+    CREATE INDEX IF NOT EXISTS idx_posts_created_at
+    ON posts (created_at)
+    WHERE NOT is_stub;
+
+    CREATE INDEX IF NOT EXISTS idx_posts_did_created
+    ON posts (did, created_at DESC);
+  `
+};
@@ -0,0 +1,33 @@
+import { Migration } from '../migrator';
+
+/**
+ * Top trending posts, one ranked snapshot per scoring run, with the parts of
+ * each score kept so a ranking can be explained
+ */
+export const trendingPosts: Migration = {
+  version: 15,
+  name: 'trending-posts',
+  up: `
+    CREATE TABLE IF NOT EXISTS metrics.trending_posts (
+      snapshot_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      rank INTEGER NOT NULL,
+      post_uri TEXT NOT NULL,
+      author_did TEXT NOT NULL,
+      score FLOAT NOT NULL,
+      -- Engagement within the velocity window
+      likes INTEGER NOT NULL,
+      reposts INTEGER NOT NULL,
+      replies INTEGER NOT NULL,
+      -- Weighted engagement per hour, each engagement decayed by its age
+      velocity FLOAT NOT NULL,
+      post_age_hours FLOAT NOT NULL,
+      age_decay FLOAT NOT NULL,
+      -- The author's usual weighted engagement per post
+      author_baseline FLOAT NOT NULL,
+      PRIMARY KEY (snapshot_at, rank)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_trending_posts_uri
+    ON metrics.trending_posts (post_uri, snapshot_at);
+  `
+};
@@ -0,0 +1,13 @@
+import { Migration } from '../migrator';
+
+/**
+ * The seq of the account event a user's status came from, so replayed or
+ * reordered older events can't overwrite a newer status
+ */
+export const accountSeq: Migration = {
+  version: 16,
+  name: 'account-seq',
+  up: `
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS account_seq BIGINT;
+  `
+};
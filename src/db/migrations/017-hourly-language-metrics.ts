@@ -0,0 +1,25 @@
+import { Migration } from '../migrator';
+
+/**
+ * Hourly post counts per primary language, split by whether the language was
+ * declared by the author or detected
+ */
+export const hourlyLanguageMetrics: Migration = {
+  version: 17,
+  name: 'hourly-language-metrics',
+  up: `
+    CREATE TABLE IF NOT EXISTS metrics.hourly_language_metrics (
+      hour_timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+      -- 'und' for posts with no declared or detectable language
+      language TEXT NOT NULL,
+      post_count INTEGER NOT NULL,
+      unique_author_count INTEGER NOT NULL,
+      declared_count INTEGER NOT NULL DEFAULT 0,
+      detected_count INTEGER NOT NULL DEFAULT 0,
+      -- Mean detector confidence over detected posts
+      avg_detected_confidence FLOAT,
+      updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (hour_timestamp, language)
+    );
+  `
+};
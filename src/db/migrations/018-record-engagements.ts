@@ -0,0 +1,22 @@
+import { Migration } from '../migrator';
+
+/**
+ * Key reply and quote engagements by the replying or quoting post, so one
+ * actor's several replies to the same post are separate rows; likes and
+ * reposts stay one per actor and post
+ */
+export const recordEngagements: Migration = {
+  version: 18,
+  name: 'record-engagements',
+  up: `
+    ALTER TABLE engagements DROP CONSTRAINT IF EXISTS engagements_post_uri_actor_did_type_key;
+
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_engagements_subject_actor_type
+    ON engagements (post_uri, actor_did, type)
+    WHERE reply_uri IS NULL;
+
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_engagements_record
+    ON engagements (reply_uri, type)
+    WHERE reply_uri IS NOT NULL;
+  `
+};
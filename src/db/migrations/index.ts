@@ -0,0 +1,44 @@
+import { Migration } from '../migrator';
+import { collectorSchema } from './001-collector-schema';
+import { metricsSchema } from './002-metrics-schema';
+import { softDeletes } from './003-soft-deletes';
+import { postRevisions } from './004-post-revisions';
+import { accountStatus } from './005-account-status';
+import { deadLetters } from './006-dead-letters';
+import { postEmbeds } from './007-post-embeds';
+import { postLanguages } from './008-post-languages';
+import { threadTracking } from './009-thread-tracking';
+import { engagementEnrichment } from './010-engagement-enrichment';
+import { referenceStubs } from './011-reference-stubs';
+import { profileHydration } from './012-profile-hydration';
+import { handleVerification } from './013-handle-verification';
+import { featureVectors } from './014-feature-vectors';
+import { trendingPosts } from './015-trending-posts';
+import { accountSeq } from './016-account-seq';
+import { hourlyLanguageMetrics } from './017-hourly-language-metrics';
+import { recordEngagements } from './018-record-engagements';
+
+/**
+ * All schema migrations, in the order they must be applied.
+ * Append new migrations here; never edit or reorder ones that have shipped.
+ */
+export const migrations: Migration[] = [
+  collectorSchema,
+  metricsSchema,
+  softDeletes,
+  postRevisions,
+  accountStatus,
+  deadLetters,
+  postEmbeds,
+  postLanguages,
+  threadTracking,
+  engagementEnrichment,
+  referenceStubs,
+  profileHydration,
+  handleVerification,
+  featureVectors,
+  trendingPosts,
+  accountSeq,
+  hourlyLanguageMetrics,
+  recordEngagements
+];
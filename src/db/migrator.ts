@@ -0,0 +1,155 @@
+import { Pool, PoolClient } from 'pg';
+import { migrations } from './migrations';
+
+/**
+ * A single forward-only schema change
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+}
+
+// Arbitrary key for pg_advisory_lock so concurrent starts don't race each other
+const MIGRATION_LOCK_KEY = 7_340_512;
+
+/**
+ * Migrator applies versioned migrations in order and records each one in
+ * schema_migrations, so restarts only run what hasn't been applied yet.
+ */
+export class Migrator {
+  private pool: Pool;
+  private migrations: Migration[];
+
+  constructor(pool: Pool, migrations: Migration[]) {
+    this.pool = pool;
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+
+    for (let i = 1; i < this.migrations.length; i++) {
+      if (this.migrations[i].version === this.migrations[i - 1].version) {
+        throw new Error(`Duplicate migration version ${this.migrations[i].version}`);
+      }
+    }
+  }
+
+  /**
+   * Apply all pending migrations
+   *
+   * @returns The versions that were applied by this call
+   */
+  async migrate(): Promise<number[]> {
+    const client = await this.pool.connect();
+    const applied: number[] = [];
+
+    try {
+      await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+
+      try {
+        await this.ensureMigrationsTable(client);
+
+        const result = await client.query('SELECT version FROM schema_migrations');
+        const done = new Set<number>(result.rows.map(row => row.version));
+
+        for (const migration of this.migrations) {
+          if (done.has(migration.version)) continue;
+
+          await this.apply(client, migration);
+          applied.push(migration.version);
+        }
+      } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+      }
+
+      if (applied.length > 0) {
+        console.log(`Applied migrations: ${applied.join(', ')}`);
+      } else {
+        console.log('Database schema is up to date');
+      }
+
+      return applied;
+    } catch (err) {
+      console.error('Failed to run migrations:', err);
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Drop every collector table and the metrics schema, then migrate from scratch.
+   * Destroys all collected data, so it is only for local development.
+   */
+  async reset(): Promise<number[]> {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('Refusing to reset the database when NODE_ENV=production');
+    }
+
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+
+      try {
+        const tables = await client.query(`
+          SELECT tablename FROM pg_tables WHERE schemaname = 'public'
+        `);
+
+        await client.query('BEGIN');
+        for (const row of tables.rows) {
+          await client.query(`DROP TABLE IF EXISTS public."${row.tablename}" CASCADE`);
+        }
+        await client.query('DROP SCHEMA IF EXISTS metrics CASCADE');
+        await client.query('COMMIT');
+
+        console.log(`Dropped ${tables.rows.length} tables and the metrics schema`);
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+      } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+      }
+    } catch (err) {
+      console.error('Failed to reset database:', err);
+      throw err;
+    } finally {
+      client.release();
+    }
+
+    return this.migrate();
+  }
+
+  private async ensureMigrationsTable(client: PoolClient): Promise<void> {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+      )
+    `);
+  }
+
+  private async apply(client: PoolClient, migration: Migration): Promise<void> {
+    console.log(`Applying migration ${migration.version} (${migration.name})`);
+
+    try {
+      await client.query('BEGIN');
+      await client.query(migration.up);
+      await client.query(
+        'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+        [migration.version, migration.name]
+      );
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK');
+      console.error(`Migration ${migration.version} (${migration.name}) failed:`, err);
+      throw err;
+    }
+  }
+}
+
+/**
+ * Bring the database schema up to date using the bundled migrations
+ */
+export async function runMigrations(pool: Pool): Promise<number[]> {
+  return new Migrator(pool, migrations).migrate();
+}
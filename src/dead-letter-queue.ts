@@ -0,0 +1,361 @@
+import { Pool } from 'pg';
+import events from 'events';
+import { JetstreamProcessor, ProcessingFailure } from './jetstream-processor';
+
+/**
+ * Configuration for the DeadLetterQueue
+ */
+export interface DeadLetterQueueConfig {
+  // Give up on automatic retries after this many failed attempts
+  maxAttempts?: number;
+  // Backoff before the first retry, doubled after each failure
+  baseRetryDelayMs?: number;
+  maxRetryDelayMs?: number;
+  // How often to look for due retries; 0 disables automatic retries
+  retryIntervalMs?: number;
+  retryBatchSize?: number;
+}
+
+/**
+ * pending: waiting for an automatic retry
+ * failed: out of automatic attempts, needs a manual retry or discard
+ * resolved: a retry succeeded
+ * discarded: dropped by an operator
+ */
+export type DeadLetterStatus = 'pending' | 'failed' | 'resolved' | 'discarded';
+
+/**
+ * A stored failed event
+ */
+export interface DeadLetter {
+  id: number;
+  handler: string;
+  event: any;
+  eventDid: string | null;
+  eventTimeUs: number | null;
+  error: string;
+  attempts: number;
+  status: DeadLetterStatus;
+  firstFailedAt: Date;
+  lastFailedAt: Date;
+  nextRetryAt: Date | null;
+  resolvedAt: Date | null;
+}
+
+/**
+ * Filters for listing dead letters
+ */
+export interface DeadLetterFilter {
+  status?: DeadLetterStatus;
+  handler?: string;
+  limit?: number;
+  offset?: number;
+}
+
+interface RetryAttempt {
+  failure: { handler: string, error: any } | null;
+}
+
+// How long a claimed row stays hidden from other retry runs
+const RETRY_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * DeadLetterQueue persists events the processor failed to handle, as the
+ * processor's failure handler, and retries them with exponential backoff.
+ *
+ * A retry re-runs the stored event through processMessage(). Errors raised
+ * while an event is being retried count against its existing row instead of
+ * creating a new one.
+ */
+export class DeadLetterQueue extends events.EventEmitter {
+  private pgPool: Pool;
+  private processor: JetstreamProcessor;
+  private config: Required<DeadLetterQueueConfig>;
+  private retrying: Map<any, RetryAttempt> = new Map();
+  private retryTimer: NodeJS.Timeout | null = null;
+  private retryRun: Promise<void> | null = null;
+
+  constructor(pgPool: Pool, processor: JetstreamProcessor, config: DeadLetterQueueConfig = {}) {
+    super();
+
+    this.pgPool = pgPool;
+    this.processor = processor;
+    this.config = {
+      maxAttempts: config.maxAttempts || 5,
+      baseRetryDelayMs: config.baseRetryDelayMs || 60 * 1000,
+      maxRetryDelayMs: config.maxRetryDelayMs || 6 * 60 * 60 * 1000,
+      retryIntervalMs: config.retryIntervalMs ?? 30 * 1000,
+      retryBatchSize: config.retryBatchSize || 100
+    };
+  }
+
+  /**
+   * Start recording processor failures and retrying due entries
+   */
+  start(): void {
+    this.processor.setFailureHandler(failure => this.handleProcessorError(failure));
+
+    if (this.config.retryIntervalMs > 0) {
+      this.retryTimer = setInterval(() => {
+        // Skip a tick rather than overlap a slow run
+        if (this.retryRun) return;
+        this.retryRun = this.retryDue()
+          .then(() => undefined)
+          .catch(err => console.error('Error retrying dead letters:', err))
+          .finally(() => { this.retryRun = null; });
+      }, this.config.retryIntervalMs);
+    }
+  }
+
+  /**
+   * Stop retrying and wait for a running retry pass to finish
+   * Call before stopping the processor
+   */
+  async stop(): Promise<void> {
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.retryRun) await this.retryRun;
+    this.processor.setFailureHandler(null);
+  }
+
+  /**
+   * Store a failed event
+   * Rejects when the row can't be written, so the event isn't acked as handled
+   *
+   * @param handler The handler that failed, e.g. 'post-processing'
+   * @param event The raw Jetstream event
+   * @param error What the handler threw
+   */
+  async record(handler: string, event: any, error: any): Promise<void> {
+    try {
+      const result = await this.pgPool.query(`
+        INSERT INTO dead_letters (handler, event, event_did, event_time_us, error, next_retry_at)
+        VALUES ($1, $2, $3, $4, $5, NOW() + $6 * INTERVAL '1 millisecond')
+        RETURNING id
+      `, [
+        handler,
+        JSON.stringify(event),
+        event?.did || null,
+        event?.time_us || null,
+        describeError(error),
+        this.retryDelay(1)
+      ]);
+
+      this.emit('dead-lettered', { id: Number(result.rows[0].id), handler, did: event?.did });
+    } catch (err) {
+      console.error(`Error storing dead letter for ${handler}:`, err);
+      throw err;
+    }
+  }
+
+  /**
+   * List dead letters, most recently failed first
+   */
+  async list(filter: DeadLetterFilter = {}): Promise<DeadLetter[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filter.status) {
+      params.push(filter.status);
+      conditions.push(`status = $${params.length}`);
+    }
+    if (filter.handler) {
+      params.push(filter.handler);
+      conditions.push(`handler = $${params.length}`);
+    }
+
+    params.push(Math.min(filter.limit || 100, 1000), filter.offset || 0);
+
+    const result = await this.pgPool.query(`
+      SELECT * FROM dead_letters
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY last_failed_at DESC, id DESC
+      LIMIT $${params.length - 1} OFFSET $${params.length}
+    `, params);
+
+    return result.rows.map(toDeadLetter);
+  }
+
+  /**
+   * Count dead letters by status
+   */
+  async getCounts(): Promise<Record<DeadLetterStatus, number>> {
+    const result = await this.pgPool.query(`
+      SELECT status, COUNT(*) AS count FROM dead_letters GROUP BY status
+    `);
+
+    const counts: Record<DeadLetterStatus, number> = { pending: 0, failed: 0, resolved: 0, discarded: 0 };
+    for (const row of result.rows) {
+      counts[row.status as DeadLetterStatus] = parseInt(row.count);
+    }
+    return counts;
+  }
+
+  /**
+   * Retry one dead letter now, whatever its schedule or attempt count
+   *
+   * @param id The dead letter id
+   * @returns The updated entry, or null if there is no retryable entry with that id
+   */
+  async retry(id: number): Promise<DeadLetter | null> {
+    // A stopped processor ignores events, which would look like success
+    if (!this.processor.isActive()) {
+      throw new Error('Processor is not running');
+    }
+
+    const result = await this.pgPool.query(`
+      UPDATE dead_letters
+      SET next_retry_at = NOW() + $2 * INTERVAL '1 millisecond'
+      WHERE id = $1 AND status <> 'resolved'
+      RETURNING *
+    `, [id, RETRY_LEASE_MS]);
+
+    if (result.rows.length === 0) return null;
+    return this.retryEntry(toDeadLetter(result.rows[0]));
+  }
+
+  /**
+   * Give up on a dead letter
+   *
+   * @param id The dead letter id
+   * @returns Whether an unresolved entry was discarded
+   */
+  async discard(id: number): Promise<boolean> {
+    const result = await this.pgPool.query(`
+      UPDATE dead_letters
+      SET status = 'discarded', next_retry_at = NULL
+      WHERE id = $1 AND status <> 'resolved'
+    `, [id]);
+
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Retry pending entries whose backoff has elapsed
+   *
+   * @returns How many were retried and how many of those succeeded
+   */
+  async retryDue(): Promise<{ retried: number, resolved: number }> {
+    if (!this.processor.isActive()) return { retried: 0, resolved: 0 };
+
+    // Claim a batch by pushing its retry time out, so concurrent runs skip it
+    const result = await this.pgPool.query(`
+      UPDATE dead_letters
+      SET next_retry_at = NOW() + $2 * INTERVAL '1 millisecond'
+      WHERE id IN (
+        SELECT id FROM dead_letters
+        WHERE status = 'pending' AND next_retry_at <= NOW()
+        ORDER BY next_retry_at
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `, [this.config.retryBatchSize, RETRY_LEASE_MS]);
+
+    let resolved = 0;
+    for (const row of result.rows) {
+      const entry = await this.retryEntry(toDeadLetter(row));
+      if (entry.status === 'resolved') resolved++;
+    }
+
+    if (result.rows.length > 0) {
+      console.log(`Retried ${result.rows.length} dead letters, ${resolved} resolved`);
+    }
+
+    return { retried: result.rows.length, resolved };
+  }
+
+  private async retryEntry(entry: DeadLetter): Promise<DeadLetter> {
+    const attempt: RetryAttempt = { failure: null };
+    this.retrying.set(entry.event, attempt);
+
+    try {
+      await this.processor.processMessage(entry.event);
+    } catch (err) {
+      attempt.failure = { handler: entry.handler, error: err };
+    } finally {
+      this.retrying.delete(entry.event);
+    }
+
+    let result;
+    if (attempt.failure) {
+      const attempts = entry.attempts + 1;
+      result = await this.pgPool.query(`
+        UPDATE dead_letters
+        SET attempts = $2,
+            handler = $3,
+            error = $4,
+            last_failed_at = NOW(),
+            status = $5,
+            next_retry_at = CASE WHEN $5 = 'pending' THEN NOW() + $6 * INTERVAL '1 millisecond' END
+        WHERE id = $1
+        RETURNING *
+      `, [
+        entry.id,
+        attempts,
+        attempt.failure.handler,
+        describeError(attempt.failure.error),
+        attempts >= this.config.maxAttempts ? 'failed' : 'pending',
+        this.retryDelay(attempts)
+      ]);
+    } else {
+      result = await this.pgPool.query(`
+        UPDATE dead_letters
+        SET status = 'resolved', resolved_at = NOW(), next_retry_at = NULL
+        WHERE id = $1
+        RETURNING *
+      `, [entry.id]);
+    }
+
+    const updated = toDeadLetter(result.rows[0]);
+    this.emit('retried', { id: updated.id, status: updated.status, attempts: updated.attempts });
+    return updated;
+  }
+
+  private async handleProcessorError(failure: ProcessingFailure): Promise<void> {
+    if (!failure.message) return;
+
+    // A failure while retrying belongs to the entry being retried
+    const attempt = this.retrying.get(failure.message);
+    if (attempt) {
+      attempt.failure = { handler: failure.type, error: failure.error };
+      return;
+    }
+
+    await this.record(failure.type || 'unknown', failure.message, failure.error);
+  }
+
+  /**
+   * Backoff after the given number of failed attempts
+   */
+  private retryDelay(attempts: number): number {
+    return Math.min(this.config.maxRetryDelayMs, this.config.baseRetryDelayMs * Math.pow(2, attempts - 1));
+  }
+}
+
+function describeError(error: any): string {
+  if (error instanceof Error) {
+    const code = (error as any).code;
+    return code ? `${error.message} (${code})` : error.message;
+  }
+  return String(error);
+}
+
+function toDeadLetter(row: any): DeadLetter {
+  return {
+    id: Number(row.id),
+    handler: row.handler,
+    event: row.event,
+    eventDid: row.event_did,
+    eventTimeUs: row.event_time_us !== null ? Number(row.event_time_us) : null,
+    error: row.error,
+    attempts: row.attempts,
+    status: row.status,
+    firstFailedAt: row.first_failed_at,
+    lastFailedAt: row.last_failed_at,
+    nextRetryAt: row.next_retry_at,
+    resolvedAt: row.resolved_at
+  };
+}
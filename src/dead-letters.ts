@@ -0,0 +1,110 @@
+import dotenv from 'dotenv';
+import { Pool } from 'pg';
+import { JetstreamProcessor } from './jetstream-processor';
+import { DeadLetterQueue, DeadLetterStatus } from './dead-letter-queue';
+import { runMigrations } from './db/migrator';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Inspect and reprocess events that failed processing:
+ *   npm run dead-letters -- list [--status failed] [--handler like-processing] [--limit 50]
+ *   npm run dead-letters -- retry <id>
+ *   npm run dead-letters -- retry-due
+ *   npm run dead-letters -- discard <id>
+ */
+const parseArgs = (argv: string[]) => {
+  const args: Record<string, string> = {};
+  const positional: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      args[argv[i].slice(2)] = argv[i + 1];
+      i++;
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+  return { args, positional };
+};
+
+const run = async () => {
+  const { args, positional } = parseArgs(process.argv.slice(2));
+  const [command, id] = positional;
+
+  const pgPool = new Pool({
+    host: process.env.PG_HOST || 'localhost',
+    port: parseInt(process.env.PG_PORT || '5432'),
+    database: process.env.PG_DATABASE || 'bluesky_collector',
+    user: process.env.PG_USER || 'postgres',
+    password: process.env.PG_PASSWORD || '',
+    ssl: process.env.PG_SSL === 'true'
+  });
+
+  // Offline and no automatic retries: this runs once and exits
+  const processor = new JetstreamProcessor(pgPool, { offline: true });
+  const deadLetters = new DeadLetterQueue(pgPool, processor, { retryIntervalMs: 0 });
+
+  try {
+    await runMigrations(pgPool);
+
+    switch (command) {
+      case 'list': {
+        const entries = await deadLetters.list({
+          status: args.status as DeadLetterStatus | undefined,
+          handler: args.handler,
+          limit: args.limit ? parseInt(args.limit) : undefined
+        });
+        console.log(await deadLetters.getCounts());
+        for (const entry of entries) {
+          console.log(`#${entry.id} [${entry.status}] ${entry.handler} ${entry.eventDid} attempts=${entry.attempts} ${entry.error}`);
+        }
+        break;
+      }
+      case 'retry':
+      case 'retry-due': {
+        if (command === 'retry' && !id) {
+          console.error('Missing dead letter id');
+          process.exitCode = 1;
+          break;
+        }
+
+        await processor.start();
+        deadLetters.start();
+        try {
+          if (command === 'retry') {
+            const entry = await deadLetters.retry(parseInt(id));
+            console.log(entry ? `#${entry.id} is now ${entry.status} (attempts=${entry.attempts})` : `No retryable dead letter #${id}`);
+          } else {
+            const { retried, resolved } = await deadLetters.retryDue();
+            console.log(`Retried ${retried}, resolved ${resolved}`);
+          }
+        } finally {
+          await deadLetters.stop();
+          await processor.stop();
+        }
+        break;
+      }
+      case 'discard': {
+        if (!id) {
+          console.error('Missing dead letter id');
+          process.exitCode = 1;
+          break;
+        }
+        const discarded = await deadLetters.discard(parseInt(id));
+        console.log(discarded ? `Discarded #${id}` : `No unresolved dead letter #${id}`);
+        break;
+      }
+      default:
+        console.error(`Unknown command: ${command}. Expected "list", "retry", "retry-due" or "discard".`);
+        process.exitCode = 1;
+    }
+  } catch (err) {
+    console.error(`Dead letter ${command} failed:`, err);
+    process.exitCode = 1;
+  } finally {
+    await pgPool.end();
+  }
+};
+
+run();
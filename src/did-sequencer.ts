@@ -0,0 +1,81 @@
+interface Turn {
+  exclusive: boolean;
+  granted: boolean;
+  grant: () => void;
+}
+
+/**
+ * DidSequencer orders event handling per DID. Handlers take a turn in
+ * arrival order: shared turns may overlap with each other, an exclusive
+ * turn waits for every earlier turn to finish and holds up every later one.
+ *
+ * Creates of new records don't conflict with each other and can share, while
+ * deletes, updates and account changes have to see everything before them.
+ */
+export class DidSequencer {
+  private turns: Map<string, Turn[]> = new Map();
+
+  /**
+   * Wait for a DID's turn
+   *
+   * @param did The DID the event belongs to
+   * @param exclusive Whether the event must not overlap any other event for the DID
+   * @returns A function that ends the turn; call it exactly once
+   */
+  async acquire(did: string, exclusive: boolean): Promise<() => void> {
+    const turn: Turn = { exclusive, granted: false, grant: () => undefined };
+    const granted = new Promise<void>(resolve => { turn.grant = resolve; });
+
+    const turns = this.turns.get(did);
+    if (turns) {
+      turns.push(turn);
+    } else {
+      this.turns.set(did, [turn]);
+    }
+    this.grantReady(did);
+
+    await granted;
+    return () => this.release(did, turn);
+  }
+
+  /**
+   * Number of DIDs with a running or waiting turn
+   */
+  size(): number {
+    return this.turns.size;
+  }
+
+  private release(did: string, turn: Turn): void {
+    const turns = this.turns.get(did);
+    if (!turns) return;
+
+    const index = turns.indexOf(turn);
+    if (index === -1) return;
+    turns.splice(index, 1);
+
+    if (turns.length === 0) {
+      this.turns.delete(did);
+    } else {
+      this.grantReady(did);
+    }
+  }
+
+  /**
+   * Start every turn that only has shared turns ahead of it, or the first
+   * turn when it is exclusive
+   */
+  private grantReady(did: string): void {
+    const turns = this.turns.get(did)!;
+
+    for (let i = 0; i < turns.length; i++) {
+      const turn = turns[i];
+      if (turn.exclusive && i > 0) break;
+
+      if (!turn.granted) {
+        turn.granted = true;
+        turn.grant();
+      }
+      if (turn.exclusive) break;
+    }
+  }
+}
@@ -0,0 +1,179 @@
+import { Pool } from 'pg';
+import events from 'events';
+
+/**
+ * Configuration for the EngagementEnricher
+ */
+export interface EngagementEnricherConfig {
+  // How often the catch-up job fills in engagements that couldn't be enriched at ingest
+  catchUpIntervalMs?: number;
+  catchUpBatchSize?: number;
+  // Recently processed posts' creation times kept in memory, since most
+  // engagement lands on posts that may still be in the write buffer
+  postCacheSize?: number;
+}
+
+/**
+ * The derived engagement columns
+ */
+export interface EngagementContext {
+  // Milliseconds between the post and the engagement, as a Postgres interval literal
+  time_to_engage: string | null;
+  actor_follows_author: boolean;
+  // Set once the engaged post was known; NULL leaves the row to the catch-up job
+  enriched_at: Date | null;
+}
+
+/**
+ * EngagementEnricher computes time_to_engage and actor_follows_author from
+ * the local posts and follows tables.
+ *
+ * lookup() runs at ingest. When the engaged post isn't known yet the row is
+ * stored unenriched, and the periodic catch-up job fills it in once the post
+ * arrives, counting only follows made before the engagement.
+ */
+export class EngagementEnricher extends events.EventEmitter {
+  private pgPool: Pool;
+  private config: Required<EngagementEnricherConfig>;
+  private postTimes: Map<string, Date> = new Map();
+  private catchUpTimer: NodeJS.Timeout | null = null;
+  private catchingUp: Promise<number> | null = null;
+
+  constructor(pgPool: Pool, config: EngagementEnricherConfig = {}) {
+    super();
+
+    this.pgPool = pgPool;
+    this.config = {
+      catchUpIntervalMs: config.catchUpIntervalMs || 60 * 1000,
+      catchUpBatchSize: config.catchUpBatchSize || 5000,
+      postCacheSize: config.postCacheSize || 100_000
+    };
+  }
+
+  /**
+   * Start the periodic catch-up job
+   */
+  start(): void {
+    this.catchUpTimer = setInterval(() => {
+      this.catchUp().catch(err => console.error('Error enriching engagements:', err));
+    }, this.config.catchUpIntervalMs);
+  }
+
+  /**
+   * Stop the catch-up job, waiting for a running pass
+   */
+  async stop(): Promise<void> {
+    if (this.catchUpTimer) {
+      clearInterval(this.catchUpTimer);
+      this.catchUpTimer = null;
+    }
+    if (this.catchingUp) {
+      await this.catchingUp.catch(() => undefined);
+    }
+  }
+
+  /**
+   * Note a post's creation time for engagements that arrive before it is stored
+   */
+  rememberPost(uri: string, createdAt: Date): void {
+    this.postTimes.delete(uri);
+    this.postTimes.set(uri, createdAt);
+
+    if (this.postTimes.size > this.config.postCacheSize) {
+      this.postTimes.delete(this.postTimes.keys().next().value!);
+    }
+  }
+
+  /**
+   * Compute the derived columns for a new engagement
+   *
+   * @param postUri The engaged post
+   * @param actorDid Who engaged
+   * @param createdAt When they engaged
+   * @param followPending Whether a follow from the actor to the author, made before the engagement, is still in the write buffer
+   */
+  async lookup(postUri: string, actorDid: string, createdAt: Date, followPending: boolean = false): Promise<EngagementContext> {
+    const authorDid = authorOf(postUri);
+    const cached = this.postTimes.get(postUri);
+
+    const result = await this.pgPool.query(`
+      SELECT
+        ${cached ? '$3::timestamptz' : '(SELECT created_at FROM posts WHERE uri = $3)'} AS post_created_at,
+        EXISTS (
+          SELECT 1 FROM follows
+          WHERE follower_did = $1 AND followed_did = $2
+            AND created_at <= $4 AND deleted_at IS NULL
+        ) AS follows
+    `, [actorDid, authorDid, cached || postUri, createdAt]);
+
+    const postCreatedAt: Date | null = result.rows[0].post_created_at;
+
+    return {
+      time_to_engage: postCreatedAt ? toInterval(createdAt.getTime() - postCreatedAt.getTime()) : null,
+      actor_follows_author: followPending || result.rows[0].follows,
+      enriched_at: postCreatedAt ? new Date() : null
+    };
+  }
+
+  /**
+   * Enrich stored engagements whose post is now known (not just a stub), in batches
+   * Concurrent calls share one run
+   *
+   * @returns The number of engagements enriched
+   */
+  catchUp(): Promise<number> {
+    if (!this.catchingUp) {
+      this.catchingUp = this.runCatchUp().finally(() => { this.catchingUp = null; });
+    }
+    return this.catchingUp;
+  }
+
+  private async runCatchUp(): Promise<number> {
+    let enriched = 0;
+
+    while (true) {
+      const result = await this.pgPool.query(`
+        UPDATE engagements e
+        SET time_to_engage = GREATEST(e.created_at - p.created_at, INTERVAL '0'),
+            actor_follows_author = EXISTS (
+              SELECT 1 FROM follows f
+              WHERE f.follower_did = e.actor_did
+                AND f.followed_did = p.did
+                AND f.created_at <= e.created_at
+                AND f.deleted_at IS NULL
+            ),
+            enriched_at = NOW()
+        FROM posts p
+        WHERE e.id IN (
+            SELECT pending.id
+            FROM engagements pending
+            JOIN posts known ON known.uri = pending.post_uri
+            WHERE pending.enriched_at IS NULL
+              AND NOT known.is_stub
+            LIMIT $1
+          )
+          AND p.uri = e.post_uri
+      `, [this.config.catchUpBatchSize]);
+
+      const count = result.rowCount ?? 0;
+      enriched += count;
+      if (count < this.config.catchUpBatchSize) break;
+    }
+
+    if (enriched > 0) {
+      console.log(`Enriched ${enriched} engagements`);
+      this.emit('caught-up', { enriched });
+    }
+    return enriched;
+  }
+}
+
+function authorOf(uri: string): string {
+  // at://<did>/<collection>/<rkey>
+  return uri.split('/')[2] || '';
+}
+
+function toInterval(ms: number): string {
+  // Post timestamps come from clients, so clamp backdated or skewed ones
+  return `${Math.max(0, ms)} milliseconds`;
+}
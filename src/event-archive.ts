@@ -0,0 +1,121 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+
+/**
+ * Configuration for the EventArchive
+ */
+export interface EventArchiveConfig {
+  directory: string;
+  // Start a new file after this many uncompressed bytes
+  maxFileBytes?: number;
+  // Start a new file after this long, even if it is small
+  maxFileAgeMs?: number;
+}
+
+const FILE_PREFIX = 'events-';
+const FILE_SUFFIX = '.ndjson.gz';
+
+/**
+ * EventArchive writes every raw Jetstream message to gzip-compressed NDJSON
+ * files, rotating by size and age. File names start with the time_us of
+ * their first event, so they sort chronologically and replays can skip
+ * files outside the requested range.
+ */
+export class EventArchive {
+  private config: Required<EventArchiveConfig>;
+  private gzip: zlib.Gzip | null = null;
+  private file: fs.WriteStream | null = null;
+  private currentPath: string | null = null;
+  private currentBytes: number = 0;
+  private openedAt: number = 0;
+  private pendingCloses: Set<Promise<void>> = new Set();
+
+  constructor(config: EventArchiveConfig) {
+    this.config = {
+      directory: config.directory,
+      maxFileBytes: config.maxFileBytes || 256 * 1024 * 1024,
+      maxFileAgeMs: config.maxFileAgeMs || 60 * 60 * 1000
+    };
+
+    fs.mkdirSync(this.config.directory, { recursive: true });
+  }
+
+  /**
+   * Append one raw message
+   *
+   * @param raw The message as received (decompressed JSON text)
+   * @param timeUs The message's time_us, used to name a new file
+   */
+  write(raw: string, timeUs: number): void {
+    if (!this.gzip || this.shouldRotate()) {
+      this.rotate(timeUs);
+    }
+
+    const line = raw.endsWith('\n') ? raw : raw + '\n';
+    this.gzip!.write(line);
+    this.currentBytes += line.length;
+  }
+
+  /**
+   * Finish the current file
+   */
+  async close(): Promise<void> {
+    await this.closeCurrent();
+    await Promise.all(this.pendingCloses);
+  }
+
+  private shouldRotate(): boolean {
+    return this.currentBytes >= this.config.maxFileBytes ||
+      Date.now() - this.openedAt >= this.config.maxFileAgeMs;
+  }
+
+  private rotate(timeUs: number): void {
+    // Rotated files finish in the background; close() waits for them
+    const closing = this.closeCurrent();
+    this.pendingCloses.add(closing);
+    closing.finally(() => this.pendingCloses.delete(closing));
+
+    // Zero-padded so lexical order matches time order
+    const name = `${FILE_PREFIX}${String(timeUs).padStart(17, '0')}${FILE_SUFFIX}`;
+    this.currentPath = path.join(this.config.directory, name);
+    this.file = fs.createWriteStream(this.currentPath, { flags: 'a' });
+    this.gzip = zlib.createGzip();
+    this.gzip.pipe(this.file);
+    this.currentBytes = 0;
+    this.openedAt = Date.now();
+
+    this.file.on('error', err => console.error(`Error writing archive file ${name}:`, err));
+    console.log(`Archiving events to ${this.currentPath}`);
+  }
+
+  private closeCurrent(): Promise<void> {
+    const gzip = this.gzip;
+    const file = this.file;
+    this.gzip = null;
+    this.file = null;
+
+    if (!gzip || !file) return Promise.resolve();
+
+    return new Promise(resolve => {
+      file.once('close', () => resolve());
+      gzip.end();
+    });
+  }
+}
+
+/**
+ * List archive files in a directory in chronological order
+ *
+ * @param directory The archive directory
+ * @returns File paths with the time_us of each file's first event
+ */
+export function listArchiveFiles(directory: string): { path: string, firstTimeUs: number }[] {
+  return fs.readdirSync(directory)
+    .filter(name => name.startsWith(FILE_PREFIX) && name.endsWith(FILE_SUFFIX))
+    .sort()
+    .map(name => ({
+      path: path.join(directory, name),
+      firstTimeUs: parseInt(name.slice(FILE_PREFIX.length, -FILE_SUFFIX.length))
+    }));
+}
@@ -0,0 +1,151 @@
+import fs from 'fs';
+import zlib from 'zlib';
+import readline from 'readline';
+import events from 'events';
+import { listArchiveFiles } from './event-archive';
+import { MessageQueue } from './message-queue';
+
+/**
+ * Configuration for the EventReplay
+ */
+export interface EventReplayConfig {
+  directory: string;
+  // Inclusive time_us range to replay; open-ended when omitted
+  fromTimeUs?: number;
+  toTimeUs?: number;
+  // 'fast' replays as quickly as the queue accepts; 'realtime' keeps the original spacing
+  pace?: 'fast' | 'realtime';
+  // Multiplier for realtime pace, e.g. 10 replays ten times faster than recorded
+  speed?: number;
+}
+
+/**
+ * EventReplay reads archived events back in order and pushes them into a
+ * MessageQueue, so they go through the same processing path as live events.
+ */
+export class EventReplay extends events.EventEmitter {
+  private config: EventReplayConfig;
+  private isStopping: boolean = false;
+
+  constructor(config: EventReplayConfig) {
+    super();
+    this.config = config;
+  }
+
+  /**
+   * Replay every archived event in range into the queue
+   * Waits for the queue to drain when it reports full
+   *
+   * @param queue The queue feeding the processor
+   * @returns The number of events replayed
+   */
+  async run(queue: MessageQueue): Promise<number> {
+    const { fromTimeUs, toTimeUs } = this.config;
+    const pace = this.config.pace || 'fast';
+    const speed = this.config.speed || 1;
+
+    let isFull = false;
+    const onFull = () => { isFull = true; };
+    const onDrained = () => { isFull = false; };
+    queue.on('full', onFull);
+    queue.on('drained', onDrained);
+
+    const files = this.selectFiles();
+    console.log(`Replaying ${files.length} archive files from ${this.config.directory}`);
+
+    let replayed = 0;
+    let firstEventUs = 0;
+    let startedAt = 0;
+
+    try {
+      for (const file of files) {
+        if (this.isStopping) break;
+
+        const lines = readline.createInterface({
+          input: fs.createReadStream(file).pipe(zlib.createGunzip()),
+          crlfDelay: Infinity
+        });
+
+        for await (const line of lines) {
+          if (this.isStopping) break;
+          if (!line.trim()) continue;
+
+          let message: any;
+          try {
+            message = JSON.parse(line);
+          } catch (err) {
+            console.warn(`Skipping malformed archive line in ${file}`);
+            continue;
+          }
+
+          const timeUs = message.time_us || 0;
+          if (fromTimeUs !== undefined && timeUs < fromTimeUs) continue;
+          if (toTimeUs !== undefined && timeUs > toTimeUs) {
+            this.isStopping = true;
+            break;
+          }
+
+          if (pace === 'realtime' && timeUs > 0) {
+            if (firstEventUs === 0) {
+              firstEventUs = timeUs;
+              startedAt = Date.now();
+            }
+            const dueAt = startedAt + (timeUs - firstEventUs) / 1000 / speed;
+            const wait = dueAt - Date.now();
+            if (wait > 0) await sleep(wait);
+          }
+
+          while (isFull) {
+            await events.once(queue, 'drained');
+          }
+
+          queue.push(message);
+          replayed++;
+
+          if (replayed % 10_000 === 0) {
+            this.emit('progress', { replayed, timeUs });
+            console.log(`Replayed ${replayed} events (at time_us ${timeUs})`);
+          }
+        }
+
+        lines.close();
+      }
+
+      await queue.drain();
+    } finally {
+      queue.off('full', onFull);
+      queue.off('drained', onDrained);
+    }
+
+    console.log(`Replay finished: ${replayed} events`);
+    return replayed;
+  }
+
+  /**
+   * Stop after the event currently being read
+   */
+  stop(): void {
+    this.isStopping = true;
+  }
+
+  /**
+   * Skip files that end before the requested range or start after it
+   */
+  private selectFiles(): string[] {
+    const { fromTimeUs, toTimeUs } = this.config;
+    const files = listArchiveFiles(this.config.directory);
+
+    return files
+      .filter((file, i) => {
+        const next = files[i + 1];
+        if (fromTimeUs !== undefined && next && next.firstTimeUs < fromTimeUs) return false;
+        if (toTimeUs !== undefined && file.firstTimeUs > toTimeUs) return false;
+        return true;
+      })
+      .map(file => file.path);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
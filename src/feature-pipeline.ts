@@ -0,0 +1,259 @@
+import { Pool } from 'pg';
+import events from 'events';
+import { embedText, meanEmbedding } from './text-embedding';
+
+/**
+ * Configuration for the FeaturePipeline
+ */
+export interface FeaturePipelineConfig {
+  // Points after a post's creation at which its engagement is snapshotted, by label
+  horizons?: Record<string, number>;
+  // Posts older than this are never picked up, so a first run doesn't backfill all history
+  lookbackMs?: number;
+  batchSize?: number;
+  embeddingDimensions?: number;
+  // Recent posts averaged into the author embedding
+  authorHistorySize?: number;
+}
+
+/**
+ * Engagement on a post up to one horizon
+ */
+export interface EngagementCounts {
+  likes: number;
+  reposts: number;
+  replies: number;
+  quotes: number;
+  unique_engagers: number;
+}
+
+// Bump when the embedding scheme or feature set changes, so old and new rows aren't mixed
+export const FEATURE_VERSION = 1;
+
+const DEFAULT_HORIZONS: Record<string, number> = {
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000
+};
+
+/**
+ * FeaturePipeline writes feature_vectors rows for recent posts: engagement
+ * counts at fixed horizons after the post was made, a hashed n-gram text
+ * embedding, and an author embedding averaged from the author's recent posts.
+ *
+ * A post gets a new row, keyed by computed_at, each time another horizon
+ * passes, so each row holds every horizon reached by then and earlier rows
+ * keep what was known at the time.
+ */
+export class FeaturePipeline extends events.EventEmitter {
+  private pgPool: Pool;
+  private config: Required<FeaturePipelineConfig>;
+  private horizons: [string, number][];
+  private running: Promise<number> | null = null;
+
+  constructor(pgPool: Pool, config: FeaturePipelineConfig = {}) {
+    super();
+
+    this.pgPool = pgPool;
+    this.config = {
+      horizons: config.horizons || DEFAULT_HORIZONS,
+      lookbackMs: config.lookbackMs || 48 * 60 * 60 * 1000,
+      batchSize: config.batchSize || 500,
+      embeddingDimensions: config.embeddingDimensions || 256,
+      authorHistorySize: config.authorHistorySize || 50
+    };
+    this.horizons = Object.entries(this.config.horizons).sort((a, b) => a[1] - b[1]);
+  }
+
+  /**
+   * Compute features for every post that passed a horizon since its last row
+   * Concurrent calls share one run
+   *
+   * @returns The number of rows written
+   */
+  run(): Promise<number> {
+    if (!this.running) {
+      this.running = this.runBatches().finally(() => { this.running = null; });
+    }
+    return this.running;
+  }
+
+  private async runBatches(): Promise<number> {
+    // One timestamp for the whole run, so its rows share a version
+    const computedAt = new Date();
+    const authorEmbeddings = new Map<string, number[] | null>();
+    let written = 0;
+
+    while (true) {
+      const posts = await this.findDuePosts(computedAt);
+      if (posts.length === 0) break;
+
+      written += await this.computeBatch(posts, computedAt, authorEmbeddings);
+      if (posts.length < this.config.batchSize) break;
+    }
+
+    if (written > 0) {
+      console.log(`Computed feature vectors for ${written} posts`);
+      this.emit('computed', { posts: written, computedAt });
+    }
+    return written;
+  }
+
+  /**
+   * Posts with a passed horizon that no row of the current version covers yet
+   */
+  private async findDuePosts(computedAt: Date): Promise<any[]> {
+    const result = await this.pgPool.query(`
+      SELECT p.uri, p.did, p.text, p.created_at, due.horizon_ms
+      FROM posts p
+      CROSS JOIN LATERAL (
+        SELECT MAX(h) AS horizon_ms
+        FROM unnest($1::bigint[]) AS h
+        WHERE p.created_at + h * INTERVAL '1 millisecond' <= $2
+      ) due
+      WHERE NOT p.is_stub
+        AND p.deleted_at IS NULL
+        AND p.created_at >= $2::timestamptz - $3 * INTERVAL '1 millisecond'
+        AND due.horizon_ms IS NOT NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM feature_vectors fv
+          WHERE fv.post_uri = p.uri
+            AND fv.feature_version = $4
+            AND fv.computed_at >= p.created_at + due.horizon_ms * INTERVAL '1 millisecond'
+        )
+      ORDER BY p.created_at
+      LIMIT $5
+    `, [
+      this.horizons.map(([, ms]) => ms),
+      computedAt,
+      this.config.lookbackMs,
+      FEATURE_VERSION,
+      this.config.batchSize
+    ]);
+
+    return result.rows;
+  }
+
+  private async computeBatch(posts: any[], computedAt: Date, authorEmbeddings: Map<string, number[] | null>): Promise<number> {
+    const engagement = await this.countEngagement(posts, computedAt);
+    await this.loadAuthorEmbeddings(posts.map(post => post.did), computedAt, authorEmbeddings);
+
+    const values: string[] = [];
+    const params: any[] = [];
+
+    for (const post of posts) {
+      const horizonMs = Number(post.horizon_ms);
+      const features: Record<string, EngagementCounts> = {};
+      for (const [label, ms] of this.horizons) {
+        if (ms > horizonMs) break;
+        features[label] = engagement.get(`${post.uri}|${label}`) || emptyCounts();
+      }
+
+      const offset = params.length;
+      values.push(`($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7})`);
+      params.push(
+        post.uri,
+        computedAt,
+        embedText(post.text, { dimensions: this.config.embeddingDimensions }),
+        authorEmbeddings.get(post.did) || null,
+        JSON.stringify(features),
+        FEATURE_VERSION,
+        this.horizons.find(([, ms]) => ms === horizonMs)?.[0] || null
+      );
+    }
+
+    try {
+      const result = await this.pgPool.query(`
+        INSERT INTO feature_vectors (
+          post_uri, computed_at, text_embedding, user_embedding,
+          engagement_features, feature_version, horizon
+        ) VALUES ${values.join(', ')}
+        ON CONFLICT (post_uri, computed_at) DO NOTHING
+      `, params);
+
+      return result.rowCount || 0;
+    } catch (err) {
+      console.error('Error storing feature vectors:', err);
+      throw err;
+    }
+  }
+
+  /**
+   * Engagement counts per post and passed horizon, keyed by uri|label
+   * Engagements removed after a horizon still count towards it
+   */
+  private async countEngagement(posts: any[], computedAt: Date): Promise<Map<string, EngagementCounts>> {
+    const result = await this.pgPool.query(`
+      SELECT
+        p.uri,
+        h.label,
+        COUNT(*) FILTER (WHERE e.type = 'like') AS likes,
+        COUNT(*) FILTER (WHERE e.type = 'repost') AS reposts,
+        COUNT(*) FILTER (WHERE e.type = 'reply') AS replies,
+        COUNT(*) FILTER (WHERE e.type = 'quote') AS quotes,
+        COUNT(DISTINCT e.actor_did) AS unique_engagers
+      FROM unnest($1::text[], $2::timestamptz[]) AS p(uri, created_at)
+      CROSS JOIN unnest($3::text[], $4::bigint[]) AS h(label, ms)
+      JOIN engagements e
+        ON e.post_uri = p.uri
+        AND e.created_at < p.created_at + h.ms * INTERVAL '1 millisecond'
+        AND (e.deleted_at IS NULL OR e.deleted_at >= p.created_at + h.ms * INTERVAL '1 millisecond')
+      WHERE p.created_at + h.ms * INTERVAL '1 millisecond' <= $5
+      GROUP BY p.uri, h.label
+    `, [
+      posts.map(post => post.uri),
+      posts.map(post => post.created_at),
+      this.horizons.map(([label]) => label),
+      this.horizons.map(([, ms]) => ms),
+      computedAt
+    ]);
+
+    const counts = new Map<string, EngagementCounts>();
+    for (const row of result.rows) {
+      counts.set(`${row.uri}|${row.label}`, {
+        likes: parseInt(row.likes),
+        reposts: parseInt(row.reposts),
+        replies: parseInt(row.replies),
+        quotes: parseInt(row.quotes),
+        unique_engagers: parseInt(row.unique_engagers)
+      });
+    }
+    return counts;
+  }
+
+  /**
+   * Fill in embeddings for authors not seen yet in this run
+   */
+  private async loadAuthorEmbeddings(dids: string[], computedAt: Date, authorEmbeddings: Map<string, number[] | null>): Promise<void> {
+    const missing = Array.from(new Set(dids)).filter(did => !authorEmbeddings.has(did));
+    if (missing.length === 0) return;
+
+    const result = await this.pgPool.query(`
+      SELECT a.did, recent.text
+      FROM unnest($1::text[]) AS a(did)
+      CROSS JOIN LATERAL (
+        SELECT text FROM posts
+        WHERE did = a.did
+          AND NOT is_stub
+          AND deleted_at IS NULL
+          AND created_at <= $2
+        ORDER BY created_at DESC
+        LIMIT $3
+      ) recent
+    `, [missing, computedAt, this.config.authorHistorySize]);
+
+    const history = new Map<string, number[][]>(missing.map(did => [did, []]));
+    for (const row of result.rows) {
+      const embedding = embedText(row.text, { dimensions: this.config.embeddingDimensions });
+      if (embedding) history.get(row.did)!.push(embedding);
+    }
+
+    for (const [did, embeddings] of history) {
+      authorEmbeddings.set(did, meanEmbedding(embeddings));
+    }
+  }
+}
+
+function emptyCounts(): EngagementCounts {
+  return { likes: 0, reposts: 0, replies: 0, quotes: 0, unique_engagers: 0 };
+}
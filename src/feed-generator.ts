@@ -0,0 +1,161 @@
+import { Pool } from 'pg';
+
+/**
+ * Where the previous page ended
+ */
+export interface FeedCursor {
+  // Time the first page was ranked at, so later pages score posts the same way
+  asOf: Date;
+  score: number;
+  uri: string;
+}
+
+/**
+ * What a ranker is asked for
+ */
+export interface FeedRankingContext {
+  limit: number;
+  asOf: Date;
+  // Return only posts ranked after this one, i.e. (score, uri) below the cursor's
+  cursor: FeedCursor | null;
+}
+
+/**
+ * A post in ranked order; higher scores come first, ties broken by descending URI
+ */
+export interface RankedPost {
+  uri: string;
+  score: number;
+}
+
+/**
+ * A ranking function over posts and engagements
+ */
+export type FeedRanker = (pool: Pool, context: FeedRankingContext) => Promise<RankedPost[]>;
+
+/**
+ * A named feed, published at at://<publisherDid>/app.bsky.feed.generator/<name>
+ */
+export interface FeedDefinition {
+  // The feed record's rkey
+  name: string;
+  ranker: FeedRanker;
+}
+
+/**
+ * Configuration for the FeedGenerator
+ */
+export interface FeedGeneratorConfig {
+  // The DID the generator service runs as, e.g. did:web:feeds.example.com
+  serviceDid: string;
+  // The account whose repo holds the app.bsky.feed.generator records
+  publisherDid: string;
+  feeds: FeedDefinition[];
+  maxLimit?: number;
+}
+
+/**
+ * An app.bsky.feed.getFeedSkeleton response
+ */
+export interface FeedSkeleton {
+  feed: { post: string }[];
+  cursor?: string;
+}
+
+const FEED_GENERATOR_COLLECTION = 'app.bsky.feed.generator';
+
+/**
+ * FeedGenerator serves skeletons for a set of named feeds, each backed by
+ * its own ranker, with keyset pagination on (score, uri).
+ */
+export class FeedGenerator {
+  private pgPool: Pool;
+  private config: Required<FeedGeneratorConfig>;
+  private feeds: Map<string, FeedDefinition>;
+
+  constructor(pgPool: Pool, config: FeedGeneratorConfig) {
+    this.pgPool = pgPool;
+    this.config = {
+      maxLimit: 100,
+      ...config
+    };
+    this.feeds = new Map(config.feeds.map(feed => [this.feedUri(feed.name), feed]));
+  }
+
+  /**
+   * The DID the generator service runs as
+   */
+  get serviceDid(): string {
+    return this.config.serviceDid;
+  }
+
+  /**
+   * The AT-URI a feed is published under
+   */
+  feedUri(name: string): string {
+    return `at://${this.config.publisherDid}/${FEED_GENERATOR_COLLECTION}/${name}`;
+  }
+
+  /**
+   * An app.bsky.feed.describeFeedGenerator response
+   */
+  describe(): { did: string, feeds: { uri: string }[] } {
+    return {
+      did: this.config.serviceDid,
+      feeds: Array.from(this.feeds.keys()).map(uri => ({ uri }))
+    };
+  }
+
+  /**
+   * Look up a feed by the AT-URI clients request it with
+   */
+  findFeed(uri: string): FeedDefinition | null {
+    return this.feeds.get(uri) || null;
+  }
+
+  /**
+   * Rank one page of a feed
+   *
+   * @param feed The feed to rank
+   * @param limit Requested page size, clamped to 1..maxLimit
+   * @param cursor The previous page's cursor, already decoded
+   */
+  async getSkeleton(feed: FeedDefinition, limit: number, cursor: FeedCursor | null): Promise<FeedSkeleton> {
+    limit = Math.max(1, Math.min(limit, this.config.maxLimit));
+    const asOf = cursor ? cursor.asOf : new Date();
+
+    const ranked = await feed.ranker(this.pgPool, { limit, asOf, cursor });
+    const page = ranked.slice(0, limit);
+
+    const skeleton: FeedSkeleton = { feed: page.map(post => ({ post: post.uri })) };
+
+    // A short page means there is nothing after it
+    if (page.length === limit) {
+      const last = page[page.length - 1];
+      skeleton.cursor = encodeCursor({ asOf, score: last.score, uri: last.uri });
+    }
+    return skeleton;
+  }
+}
+
+/**
+ * Cursors are opaque to clients: <asOf ms>::<score>::<uri>
+ */
+export function encodeCursor(cursor: FeedCursor): string {
+  return `${cursor.asOf.getTime()}::${cursor.score}::${cursor.uri}`;
+}
+
+/**
+ * @returns The cursor, or null if it isn't one this generator issued
+ */
+export function decodeCursor(value: string): FeedCursor | null {
+  const [asOf, score, ...uri] = value.split('::');
+  const asOfMs = Number(asOf);
+  const scoreValue = Number(score);
+
+  if (!asOf || !score || uri.length === 0) return null;
+  if (!Number.isFinite(asOfMs) || !Number.isFinite(scoreValue)) return null;
+  if (!uri.join('::').startsWith('at://')) return null;
+
+  return { asOf: new Date(asOfMs), score: scoreValue, uri: uri.join('::') };
+}
@@ -0,0 +1,94 @@
+import { Pool } from 'pg';
+import { FeedRanker, FeedRankingContext, RankedPost } from './feed-generator';
+
+/**
+ * Options shared by the built-in rankers
+ */
+export interface RankerOptions {
+  // Only posts made within this long before the ranking time are considered
+  windowMs?: number;
+  // Popular feed: how fast older posts sink; 1.8 is the classic Hacker News value
+  gravity?: number;
+}
+
+// Posts worth showing: real, not deleted, top-level, from active accounts
+const RANKABLE_POSTS = `
+  NOT p.is_stub
+  AND p.deleted_at IS NULL
+  AND p.reply_to IS NULL
+  AND p.author_active
+  AND p.created_at <= $1
+  AND p.created_at >= $1::timestamptz - $2 * INTERVAL '1 millisecond'
+`;
+
+/**
+ * Newest posts first
+ */
+export function latestRanker(options: RankerOptions = {}): FeedRanker {
+  const windowMs = options.windowMs || 48 * 60 * 60 * 1000;
+
+  return (pool, context) => rank(pool, context, `
+    SELECT p.uri, EXTRACT(EPOCH FROM p.created_at)::float8 AS score
+    FROM posts p
+    WHERE ${RANKABLE_POSTS}
+  `, [windowMs]);
+}
+
+/**
+ * Engagement per hour of age: likes count once, reposts and quotes twice,
+ * replies once, divided by (age in hours + 2) ^ gravity
+ */
+export function popularRanker(options: RankerOptions = {}): FeedRanker {
+  const windowMs = options.windowMs || 24 * 60 * 60 * 1000;
+  const gravity = options.gravity || 1.8;
+
+  return (pool, context) => rank(pool, context, `
+    SELECT
+      p.uri,
+      (
+        COUNT(e.id) FILTER (WHERE e.type = 'like')
+        + 2 * COUNT(e.id) FILTER (WHERE e.type IN ('repost', 'quote'))
+        + COUNT(e.id) FILTER (WHERE e.type = 'reply')
+      ) / POWER(EXTRACT(EPOCH FROM $1::timestamptz - p.created_at) / 3600 + 2, $3)::float8 AS score
+    FROM posts p
+    LEFT JOIN engagements e
+      ON e.post_uri = p.uri
+      AND e.deleted_at IS NULL
+      AND e.created_at <= $1
+    WHERE ${RANKABLE_POSTS}
+    GROUP BY p.uri, p.created_at
+  `, [windowMs, gravity]);
+}
+
+/**
+ * Rankers available to FEEDS by name
+ */
+export const builtInRankers: Record<string, (options?: RankerOptions) => FeedRanker> = {
+  latest: latestRanker,
+  popular: popularRanker
+};
+
+/**
+ * Page through a scoring query in (score, uri) order
+ *
+ * @param scored A query selecting uri and score, using $1 for the ranking time; extra params start at $2
+ */
+async function rank(pool: Pool, context: FeedRankingContext, scored: string, params: any[]): Promise<RankedPost[]> {
+  const offset = params.length + 1;
+
+  const result = await pool.query(`
+    WITH scored AS (${scored})
+    SELECT uri, score FROM scored
+    WHERE $${offset + 1}::float8 IS NULL OR (score, uri) < ($${offset + 1}, $${offset + 2})
+    ORDER BY score DESC, uri DESC
+    LIMIT $${offset + 3}
+  `, [
+    context.asOf,
+    ...params,
+    context.cursor ? context.cursor.score : null,
+    context.cursor ? context.cursor.uri : null,
+    context.limit
+  ]);
+
+  return result.rows.map(row => ({ uri: row.uri, score: Number(row.score) }));
+}
@@ -0,0 +1,506 @@
+import { Pool } from 'pg';
+import events from 'events';
+import dns from 'dns';
+
+/**
+ * Configuration for the IdentityResolver
+ */
+export interface IdentityResolverConfig {
+  plcDirectoryUrl?: string;
+  // Resolve handles with com.atproto.identity.resolveHandle on this service
+  // instead of DNS and the handle's /.well-known/atproto-did
+  handleResolverUrl?: string;
+  requestTimeoutMs?: number;
+  // How long resolved DID documents and handles are trusted
+  cacheTtlMs?: number;
+  // How long to remember that a DID or handle didn't resolve
+  negativeCacheTtlMs?: number;
+  cacheSize?: number;
+  flushIntervalMs?: number;
+  // DIDs beyond this are dropped; they're queued again on their next identity event or profile refresh
+  maxQueueSize?: number;
+  // Token bucket for requests to the PLC directory, handle resolver and did:web hosts
+  maxRequestsPerSecond?: number;
+  requestBurst?: number;
+  // Pause after a 429 that gives no Retry-After
+  retryDelayMs?: number;
+}
+
+/**
+ * The parts of a DID document the collector uses
+ */
+export interface DidDocument {
+  id: string;
+  // The first at:// alias, which the document claims as the account's handle
+  handle: string | null;
+  pdsEndpoint: string | null;
+}
+
+/**
+ * The outcome of resolving a DID and checking its handle
+ */
+export interface VerifiedIdentity {
+  did: string;
+  // Only set when the handle the document claims resolves back to the DID
+  handle: string | null;
+  claimedHandle: string | null;
+  pdsEndpoint: string | null;
+}
+
+/**
+ * Resolution counters
+ */
+export interface IdentityResolverStats {
+  queued: number;
+  verified: number;
+  unverified: number;
+  unresolved: number;
+  reassigned: number;
+  failed: number;
+  rateLimited: number;
+  cacheHits: number;
+  cacheMisses: number;
+  pausedUntil: string | null;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+/**
+ * Thrown when a resolution request is turned away, so nothing gets cached for it
+ */
+class RateLimitedError extends Error {}
+
+/**
+ * IdentityResolver resolves DID documents (did:plc through a PLC directory,
+ * did:web over HTTPS) and handles, and keeps users.handle limited to
+ * handles verified in both directions: the DID document claims the handle
+ * and the handle resolves back to the DID.
+ *
+ * DIDs are queued when an identity event arrives or hydration reports a
+ * different handle, and verified in the background. A verified handle is
+ * taken away from whichever user held it before, and that user is queued
+ * to find out where they moved.
+ *
+ * Requests are spread out with a token bucket, and a 429 pauses resolution
+ * until the server's Retry-After, leaving the DID queued.
+ */
+export class IdentityResolver extends events.EventEmitter {
+  private pgPool: Pool;
+  private config: Required<Omit<IdentityResolverConfig, 'handleResolverUrl'>> & IdentityResolverConfig;
+  private didCache: Map<string, CacheEntry<DidDocument | null>> = new Map();
+  private handleCache: Map<string, CacheEntry<string | null>> = new Map();
+  private queue: Set<string> = new Set();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private processing: Promise<void> | null = null;
+  private tokens: number;
+  private tokensUpdatedAt: number = Date.now();
+  private pausedUntil: number = 0;
+  private stats = {
+    verified: 0,
+    unverified: 0,
+    unresolved: 0,
+    reassigned: 0,
+    failed: 0,
+    rateLimited: 0,
+    cacheHits: 0,
+    cacheMisses: 0
+  };
+
+  constructor(pgPool: Pool, config: IdentityResolverConfig = {}) {
+    super();
+
+    this.pgPool = pgPool;
+    this.config = {
+      plcDirectoryUrl: (config.plcDirectoryUrl || 'https://plc.directory').replace(/\/+$/, ''),
+      handleResolverUrl: config.handleResolverUrl?.replace(/\/+$/, ''),
+      requestTimeoutMs: config.requestTimeoutMs || 5000,
+      cacheTtlMs: config.cacheTtlMs || 60 * 60 * 1000,
+      negativeCacheTtlMs: config.negativeCacheTtlMs || 5 * 60 * 1000,
+      cacheSize: config.cacheSize || 100_000,
+      flushIntervalMs: config.flushIntervalMs || 1000,
+      maxQueueSize: config.maxQueueSize || 50_000,
+      maxRequestsPerSecond: config.maxRequestsPerSecond || 10,
+      requestBurst: config.requestBurst || 20,
+      retryDelayMs: config.retryDelayMs || 30 * 1000
+    };
+    this.tokens = this.config.requestBurst;
+  }
+
+  /**
+   * Start verifying queued DIDs
+   */
+  start(): void {
+    this.flushTimer = setInterval(() => {
+      this.process().catch(err => console.error('Error resolving identities:', err));
+    }, this.config.flushIntervalMs);
+  }
+
+  /**
+   * Stop verifying, waiting for a running pass
+   */
+  async stop(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.processing) {
+      await this.processing.catch(() => undefined);
+    }
+  }
+
+  /**
+   * Queue a DID for verification and storage
+   */
+  enqueue(did: string): void {
+    if (this.queue.size >= this.config.maxQueueSize) return;
+    this.queue.add(did);
+  }
+
+  /**
+   * Forget cached resolutions for a DID, e.g. after an identity event
+   */
+  invalidate(did: string): void {
+    const cached = this.didCache.get(did);
+    this.didCache.delete(did);
+    if (cached?.value?.handle) {
+      this.handleCache.delete(cached.value.handle);
+    }
+  }
+
+  /**
+   * Verify and store every queued DID
+   * Concurrent calls share one run
+   */
+  process(): Promise<void> {
+    if (!this.processing) {
+      this.processing = this.runProcess().finally(() => { this.processing = null; });
+    }
+    return this.processing;
+  }
+
+  /**
+   * Get resolution counters
+   */
+  getStats(): IdentityResolverStats {
+    return {
+      ...this.stats,
+      queued: this.queue.size,
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : null
+    };
+  }
+
+  /**
+   * Fetch a DID document
+   *
+   * @returns The document, or null if the DID doesn't exist or uses an unsupported method
+   */
+  async resolveDid(did: string): Promise<DidDocument | null> {
+    const cached = this.getCached(this.didCache, did);
+    if (cached !== undefined) return cached;
+
+    let url: string | null = null;
+    if (did.startsWith('did:plc:')) {
+      url = `${this.config.plcDirectoryUrl}/${encodeURIComponent(did)}`;
+    } else if (did.startsWith('did:web:')) {
+      url = didWebUrl(did);
+    }
+
+    let document: DidDocument | null = null;
+    if (url) {
+      const raw = await this.fetchJson(url);
+      document = raw && raw.id === did ? parseDidDocument(raw) : null;
+    }
+
+    this.setCached(this.didCache, did, document);
+    return document;
+  }
+
+  /**
+   * Resolve a handle to the DID it points at
+   *
+   * @returns The DID, or null if the handle doesn't resolve
+   */
+  async resolveHandle(handle: string): Promise<string | null> {
+    handle = handle.toLowerCase();
+
+    const cached = this.getCached(this.handleCache, handle);
+    if (cached !== undefined) return cached;
+
+    let did: string | null;
+    if (this.config.handleResolverUrl) {
+      const result = await this.fetchJson(
+        `${this.config.handleResolverUrl}/xrpc/com.atproto.identity.resolveHandle?handle=${encodeURIComponent(handle)}`
+      );
+      did = typeof result?.did === 'string' ? result.did : null;
+    } else {
+      did = await this.resolveHandleDns(handle) || await this.resolveHandleHttps(handle);
+    }
+
+    this.setCached(this.handleCache, handle, did);
+    return did;
+  }
+
+  /**
+   * Resolve a DID and check that its claimed handle points back at it
+   *
+   * @returns The identity, or null if the DID doesn't resolve
+   */
+  async verify(did: string): Promise<VerifiedIdentity | null> {
+    const document = await this.resolveDid(did);
+    if (!document) return null;
+
+    const claimedHandle = document.handle;
+    const resolvedDid = claimedHandle ? await this.resolveHandle(claimedHandle) : null;
+
+    return {
+      did,
+      handle: resolvedDid === did ? claimedHandle : null,
+      claimedHandle,
+      pdsEndpoint: document.pdsEndpoint
+    };
+  }
+
+  /**
+   * Verify a DID and store the result on its user
+   *
+   * @returns The identity, or null if the DID doesn't resolve
+   */
+  async syncIdentity(did: string): Promise<VerifiedIdentity | null> {
+    const identity = await this.verify(did);
+
+    if (!identity) {
+      this.stats.unresolved++;
+      return null;
+    }
+
+    const previousOwners = await this.storeIdentity(identity);
+
+    if (identity.handle) {
+      this.stats.verified++;
+    } else {
+      this.stats.unverified++;
+    }
+
+    // Whoever held the handle has probably moved to a new one
+    for (const owner of previousOwners) {
+      this.stats.reassigned++;
+      this.invalidate(owner);
+      this.enqueue(owner);
+      this.emit('handle-reassigned', { handle: identity.handle, from: owner, to: did });
+    }
+
+    this.emit('identity-verified', identity);
+    return identity;
+  }
+
+  private async runProcess(): Promise<void> {
+    while (this.queue.size > 0 && Date.now() >= this.pausedUntil) {
+      const did: string = this.queue.values().next().value!;
+      this.queue.delete(did);
+
+      try {
+        await this.syncIdentity(did);
+      } catch (err) {
+        if (err instanceof RateLimitedError) {
+          // Nothing was resolved, so try it again once the pause is over
+          this.queue.add(did);
+          continue;
+        }
+
+        // Left for the next identity event or profile refresh
+        this.stats.failed++;
+        console.error(`Error resolving identity for ${did}:`, err);
+      }
+    }
+  }
+
+  /**
+   * @returns DIDs the handle was taken away from
+   */
+  private async storeIdentity(identity: VerifiedIdentity): Promise<string[]> {
+    const client = await this.pgPool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      let previousOwners: string[] = [];
+      if (identity.handle) {
+        // Handles are unique, so release it from its previous owner first
+        const released = await client.query(`
+          UPDATE users
+          SET handle = NULL, handle_verified_at = NULL, last_updated_at = NOW()
+          WHERE handle = $1 AND did <> $2
+          RETURNING did
+        `, [identity.handle, identity.did]);
+        previousOwners = released.rows.map(row => row.did);
+      }
+
+      // An unverified claim clears the stored handle rather than keeping a stale one
+      await client.query(`
+        INSERT INTO users (
+          did, handle, handle_verified_at, pds_endpoint, first_seen_at, last_updated_at
+        ) VALUES (
+          $1, $2, CASE WHEN $2::text IS NOT NULL THEN NOW() END, $3, NOW(), NOW()
+        ) ON CONFLICT (did) DO UPDATE SET
+          handle = EXCLUDED.handle,
+          handle_verified_at = EXCLUDED.handle_verified_at,
+          pds_endpoint = EXCLUDED.pds_endpoint,
+          last_updated_at = NOW()
+      `, [identity.did, identity.handle, identity.pdsEndpoint]);
+
+      await client.query('COMMIT');
+      return previousOwners;
+    } catch (err) {
+      await client.query('ROLLBACK');
+      console.error('Error storing identity:', err);
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async resolveHandleDns(handle: string): Promise<string | null> {
+    try {
+      const records = await dns.promises.resolveTxt(`_atproto.${handle}`);
+      const dids = records
+        .map(chunks => chunks.join(''))
+        .filter(record => record.startsWith('did='))
+        .map(record => record.slice('did='.length));
+
+      // More than one answer is ambiguous, so treat it as unresolved
+      return dids.length === 1 ? dids[0] : null;
+    } catch (err) {
+      return null;
+    }
+  }
+
+  private async resolveHandleHttps(handle: string): Promise<string | null> {
+    try {
+      const response = await fetch(`https://${handle}/.well-known/atproto-did`, {
+        signal: AbortSignal.timeout(this.config.requestTimeoutMs)
+      });
+      if (!response.ok) return null;
+
+      const did = (await response.text()).split('\n')[0].trim();
+      return did.startsWith('did:') ? did : null;
+    } catch (err) {
+      return null;
+    }
+  }
+
+  /**
+   * @returns The parsed body, or null for 4xx responses other than 429
+   */
+  private async fetchJson(url: string): Promise<any> {
+    if (Date.now() < this.pausedUntil) {
+      throw new RateLimitedError(`Identity resolution is paused until ${new Date(this.pausedUntil).toISOString()}`);
+    }
+    await this.takeToken();
+
+    const response = await fetch(url, {
+      headers: { accept: 'application/json' },
+      signal: AbortSignal.timeout(this.config.requestTimeoutMs)
+    });
+
+    if (response.status === 429) {
+      this.stats.rateLimited++;
+      this.pausedUntil = Date.now() + (retryAfterMs(response.headers.get('retry-after')) ?? this.config.retryDelayMs);
+      console.warn(`Identity rate limit hit, pausing resolution until ${new Date(this.pausedUntil).toISOString()}`);
+      throw new RateLimitedError(`${url} responded with 429`);
+    }
+
+    // Unknown or tombstoned DIDs and unresolvable handles
+    if (response.status >= 400 && response.status < 500) return null;
+    if (!response.ok) {
+      throw new Error(`${url} responded with ${response.status}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Wait until the bucket has a request to spend
+   * Tokens may go negative so concurrent callers queue up behind each other
+   */
+  private async takeToken(): Promise<void> {
+    const now = Date.now();
+    const refill = (now - this.tokensUpdatedAt) * this.config.maxRequestsPerSecond / 1000;
+    this.tokens = Math.min(this.config.requestBurst, this.tokens + refill) - 1;
+    this.tokensUpdatedAt = now;
+
+    if (this.tokens < 0) {
+      await sleep(-this.tokens * 1000 / this.config.maxRequestsPerSecond);
+    }
+  }
+
+  private getCached<T>(cache: Map<string, CacheEntry<T>>, key: string): T | undefined {
+    const entry = cache.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.stats.cacheMisses++;
+      return undefined;
+    }
+
+    this.stats.cacheHits++;
+    return entry.value;
+  }
+
+  private setCached<T>(cache: Map<string, CacheEntry<T>>, key: string, value: T): void {
+    const ttl = value === null ? this.config.negativeCacheTtlMs : this.config.cacheTtlMs;
+
+    cache.delete(key);
+    cache.set(key, { value, expiresAt: Date.now() + ttl });
+
+    if (cache.size > this.config.cacheSize) {
+      cache.delete(cache.keys().next().value!);
+    }
+  }
+}
+
+/**
+ * Where a did:web document lives, e.g. did:web:example.com -> https://example.com/.well-known/did.json
+ * Only hostname DIDs are valid in atproto; localhost is fetched over plain HTTP for development
+ */
+function didWebUrl(did: string): string | null {
+  const host = decodeURIComponent(did.slice('did:web:'.length));
+  if (!host || (host.includes(':') && !/^[^:]+:\d+$/.test(host))) return null;
+
+  const hostname = host.split(':')[0];
+  const scheme = hostname === 'localhost' || hostname === '127.0.0.1' ? 'http' : 'https';
+  return `${scheme}://${host}/.well-known/did.json`;
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date
+ */
+function retryAfterMs(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(seconds * 1000, 0);
+
+  const date = Date.parse(header);
+  return !isNaN(date) ? Math.max(date - Date.now(), 0) : null;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function parseDidDocument(raw: any): DidDocument {
+  const aliases: any[] = Array.isArray(raw.alsoKnownAs) ? raw.alsoKnownAs : [];
+  const alias = aliases.find(aka => typeof aka === 'string' && aka.startsWith('at://'));
+
+  const services: any[] = Array.isArray(raw.service) ? raw.service : [];
+  const pds = services.find(service =>
+    (service?.id === '#atproto_pds' || service?.id === `${raw.id}#atproto_pds`) &&
+    typeof service.serviceEndpoint === 'string'
+  );
+
+  return {
+    id: raw.id,
+    handle: alias ? alias.slice('at://'.length).toLowerCase() : null,
+    pdsEndpoint: pds ? pds.serviceEndpoint : null
+  };
+}
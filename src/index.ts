@@ -6,7 +6,12 @@ import http from 'http'
 import express from 'express'
 import { Server } from 'socket.io'
 import { MetricsScheduler } from './metrics-scheduler'
+import { MessageQueue } from './message-queue'
+import { DeadLetterQueue } from './dead-letter-queue'
 import { setupApiRoutes } from './api/api-routes'
+import { setupFeedRoutes } from './api/feed-routes'
+import { FeedGenerator } from './feed-generator'
+import { builtInRankers } from './feed-rankers'
 import cors from 'cors'
 
 // Load environment variables
@@ -45,13 +50,23 @@ const run = async () => {
       }
     })
 
-    setupApiRoutes(app, pgPool)
 
     // Create and start the processor
     const processor = new JetstreamProcessor(pgPool, {
       bskyService: 'https://bsky.social',
       bskyHandle: process.env.BSKY_HANDLE,
-      bskyPassword: process.env.BSKY_PASSWORD
+      bskyPassword: process.env.BSKY_PASSWORD,
+      batchSize: process.env.BATCH_SIZE ? parseInt(process.env.BATCH_SIZE) : undefined,
+      batchFlushIntervalMs: process.env.BATCH_FLUSH_INTERVAL ? parseInt(process.env.BATCH_FLUSH_INTERVAL) : undefined,
+      threadRefreshIntervalMs: process.env.THREAD_REFRESH_INTERVAL ? parseInt(process.env.THREAD_REFRESH_INTERVAL) : undefined,
+      engagementCatchUpIntervalMs: process.env.ENGAGEMENT_CATCH_UP_INTERVAL ? parseInt(process.env.ENGAGEMENT_CATCH_UP_INTERVAL) : undefined,
+      appViewUrl: process.env.APPVIEW_URL,
+      profileStaleAfterMs: process.env.PROFILE_STALE_AFTER ? parseInt(process.env.PROFILE_STALE_AFTER) : undefined,
+      profileRefreshIntervalMs: process.env.PROFILE_REFRESH_INTERVAL ? parseInt(process.env.PROFILE_REFRESH_INTERVAL) : undefined,
+      plcDirectoryUrl: process.env.PLC_DIRECTORY_URL,
+      handleResolverUrl: process.env.HANDLE_RESOLVER_URL,
+      identityCacheTtlMs: process.env.IDENTITY_CACHE_TTL ? parseInt(process.env.IDENTITY_CACHE_TTL) : undefined,
+      identityRequestsPerSecond: process.env.IDENTITY_REQUESTS_PER_SECOND ? parseInt(process.env.IDENTITY_REQUESTS_PER_SECOND) : undefined
     });
 
     // Parse wanted collections from environment variables if provided
@@ -71,11 +86,21 @@ const run = async () => {
       pgConfig,
       {
         endpoint: process.env.JETSTREAM_ENDPOINT || 'wss://bsky.network/subscribe',
+        fallbackEndpoints: process.env.JETSTREAM_FALLBACK_ENDPOINTS
+          ? process.env.JETSTREAM_FALLBACK_ENDPOINTS.split(',').map(e => e.trim())
+          : undefined,
+        maxReconnectDelay: process.env.MAX_RECONNECT_DELAY ? parseInt(process.env.MAX_RECONNECT_DELAY) : undefined,
+        failoverAfterAttempts: process.env.FAILOVER_AFTER_ATTEMPTS ? parseInt(process.env.FAILOVER_AFTER_ATTEMPTS) : undefined,
+        stallTimeoutMs: process.env.STALL_TIMEOUT ? parseInt(process.env.STALL_TIMEOUT) : undefined,
+        pingIntervalMs: process.env.PING_INTERVAL ? parseInt(process.env.PING_INTERVAL) : undefined,
         wantedCollections,
         wantedDids,
-        compress: process.env.COMPRESS === 'false',
+        compress: process.env.COMPRESS === 'true',
+        zstdDictionaryPath: process.env.ZSTD_DICTIONARY_PATH,
         maxMessageSizeBytes: process.env.MAX_MESSAGE_SIZE ? parseInt(process.env.MAX_MESSAGE_SIZE) : undefined,
         requireHello: process.env.REQUIRE_HELLO === 'true',
+        archiveDir: process.env.ARCHIVE_DIR,
+        cursorCheckpointIntervalMs: process.env.CURSOR_CHECKPOINT_INTERVAL ? parseInt(process.env.CURSOR_CHECKPOINT_INTERVAL) : undefined,
       },
       parseInt(process.env.RECONNECT_DELAY || '5000')
     );
@@ -83,26 +108,74 @@ const run = async () => {
     const metricsScheduler = new MetricsScheduler(pgPool, io)
     await metricsScheduler.initialize()
 
+    // Persist events that fail processing and retry them with backoff
+    const deadLetters = new DeadLetterQueue(pgPool, processor, {
+      maxAttempts: process.env.DEAD_LETTER_MAX_ATTEMPTS ? parseInt(process.env.DEAD_LETTER_MAX_ATTEMPTS) : undefined,
+      baseRetryDelayMs: process.env.DEAD_LETTER_RETRY_DELAY ? parseInt(process.env.DEAD_LETTER_RETRY_DELAY) : undefined,
+      retryIntervalMs: process.env.DEAD_LETTER_RETRY_INTERVAL ? parseInt(process.env.DEAD_LETTER_RETRY_INTERVAL) : undefined
+    });
+
     // Start the processor
     await processor.start();
+    deadLetters.start();
     
-    // Connect processor to the collector
-    collector.on('message', async (message) => {
+    // Connect processor to the collector through a bounded queue
+    const queue = new MessageQueue(async (message) => {
       try {
+        // Resolves once the event is stored or dead-lettered, so acking
+        // afterwards keeps one bad event from pinning the cursor
         await processor.processMessage(message);
+        collector.ack(message);
       } catch (error) {
-        console.error('Unhandled error in message processing:', error)
+        // Not even dead-lettered: leave it unacked so a restart replays it
+        console.error('Event could not be stored or dead-lettered:', error)
       }
-      
+    }, {
+      maxSize: process.env.QUEUE_MAX_SIZE ? parseInt(process.env.QUEUE_MAX_SIZE) : undefined,
+      concurrency: process.env.QUEUE_CONCURRENCY ? parseInt(process.env.QUEUE_CONCURRENCY) : undefined
     });
-    
+
+    collector.on('message', (message) => queue.push(message));
+    queue.on('full', () => collector.pause());
+    queue.on('drained', () => collector.resume());
+
+    setupApiRoutes(app, pgPool, { queue, processor, collector, deadLetters })
+
+    // Serve feeds when a publisher is configured; FEEDS is a list of name:ranker, e.g. whats-hot:popular
+    if (process.env.FEEDGEN_PUBLISHER_DID) {
+      const feeds = (process.env.FEEDS || 'latest,popular').split(',').map(entry => {
+        const [name, rankerName = name] = entry.trim().split(':')
+        const ranker = builtInRankers[rankerName]
+        if (!ranker) {
+          throw new Error(`Unknown ranker "${rankerName}" for feed "${name}"`)
+        }
+        return { name, ranker: ranker() }
+      })
+
+      const hostname = process.env.FEEDGEN_HOSTNAME
+      const serviceDid = process.env.FEEDGEN_SERVICE_DID || (hostname ? `did:web:${hostname}` : undefined)
+      if (!serviceDid) {
+        throw new Error('Set FEEDGEN_SERVICE_DID or FEEDGEN_HOSTNAME to serve feeds')
+      }
+
+      const generator = new FeedGenerator(pgPool, {
+        serviceDid,
+        publisherDid: process.env.FEEDGEN_PUBLISHER_DID,
+        feeds
+      })
+      setupFeedRoutes(app, generator, hostname)
+      console.log(`📰 Serving feeds: ${feeds.map(feed => feed.name).join(', ')}`)
+    }
+
     // Set up event listeners for the collector
     collector.on('connected', () => {
       console.log('🚀 Connected to Jetstream');
     });
     
     collector.on('disconnected', () => {
+      const bandwidth = collector.getBandwidthStats();
       console.log('❌ Disconnected from Jetstream');
+      console.log(`📦 Received ${bandwidth.bytesReceived} bytes, ${bandwidth.bytesDecompressed} decompressed`);
     });
     
     collector.on('error', (err) => {
@@ -112,6 +185,10 @@ const run = async () => {
     // Handle shutdown signals
     process.on('SIGINT', async () => {
       console.log('Received SIGINT. Shutting down...');
+      // Stop receiving, let the processor flush, then checkpoint what was stored
+      collector.disconnect();
+      await queue.drain();
+      await deadLetters.stop();
       await processor.stop();
       await collector.stop();
       await pgPool.end();
@@ -120,6 +197,10 @@ const run = async () => {
     
     process.on('SIGTERM', async () => {
       console.log('Received SIGTERM. Shutting down...');
+      // Stop receiving, let the processor flush, then checkpoint what was stored
+      collector.disconnect();
+      await queue.drain();
+      await deadLetters.stop();
       await processor.stop();
       await collector.stop();
       await pgPool.end();
@@ -1,16 +1,72 @@
 import WebSocket from 'ws';
 import events from 'events';
-import zlib from 'zlib';
 import { Pool, PoolClient } from 'pg';
+import { runMigrations } from './db/migrator';
+import { CursorTracker } from './cursor-tracker';
+import { ZstdDecoder } from './zstd-decoder';
+import { EventArchive } from './event-archive';
 
 export interface JetstreamConfig {
   endpoint: string;
+  // Additional instances to fail over to, tried in order after endpoint
+  fallbackEndpoints?: string[];
+  // Upper bound for the exponential reconnect backoff
+  maxReconnectDelay?: number;
+  // Consecutive failures on one endpoint before rotating to the next
+  failoverAfterAttempts?: number;
+  // Reconnect when no message arrives for this long; 0 disables (pings still run)
+  stallTimeoutMs?: number;
+  // How often to ping; a missing pong by the next ping counts as a stall
+  pingIntervalMs?: number;
   wantedCollections?: string[];
   wantedDids?: string[];
   maxMessageSizeBytes?: number;
   cursor?: number;
   compress?: boolean;
+  // Jetstream's zstd dictionary, required when compress is true
+  zstdDictionaryPath?: string;
   requireHello?: boolean;
+  cursorCheckpointIntervalMs?: number;
+  // When set, every raw message is also written to rotating NDJSON files here
+  archiveDir?: string;
+}
+
+/**
+ * Filters that can be changed on a live connection
+ */
+export interface SubscriptionOptions {
+  wantedCollections?: string[];
+  wantedDids?: string[];
+  maxMessageSizeBytes?: number;
+}
+
+// Limits Jetstream enforces on options_update payloads
+const MAX_WANTED_COLLECTIONS = 100;
+const MAX_WANTED_DIDS = 10_000;
+
+/**
+ * Connection health of a single Jetstream endpoint
+ */
+export interface EndpointHealth {
+  endpoint: string;
+  // Failures since data last flowed; only a working connection clears it
+  consecutiveFailures: number;
+  // Failures since the collector last switched to this endpoint, counted toward failoverAfterAttempts
+  attempts: number;
+  totalFailures: number;
+  lastConnectedAt: Date | null;
+  lastFailureAt: Date | null;
+  stalls: number;
+}
+
+/**
+ * Bytes on the wire vs. after decompression, cumulative since start
+ */
+export interface BandwidthStats {
+  compressed: boolean;
+  bytesReceived: number;
+  bytesDecompressed: number;
+  compressionRatio: number | null;
 }
 
 export interface PostgresConfig {
@@ -30,12 +86,38 @@ export class JetstreamCollector extends events.EventEmitter {
   private reconnectDelay: number;
   private isConnected: boolean = false;
   private lastCursor: number = 0;
+  private savedCursor: number = 0;
+  private cursorTracker: CursorTracker = new CursorTracker();
+  private isStopping: boolean = false;
+  private isPaused: boolean = false;
+  private zstdDecoder: ZstdDecoder | null = null;
+  private archive: EventArchive | null = null;
+  private bytesReceived: number = 0;
+  private bytesDecompressed: number = 0;
+  private checkpointTimer: NodeJS.Timeout | null = null;
+  private endpoints: EndpointHealth[];
+  private currentEndpoint: number = 0;
+  private reconnectAttempt: number = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private watchdogTimer: NodeJS.Timeout | null = null;
+  private lastMessageAt: number = 0;
+  private awaitingPong: boolean = false;
   
   constructor(pgConfig: PostgresConfig, config: JetstreamConfig, reconnectDelay: number = 3000) {
     super();
     this.pgPool = new Pool(pgConfig);
-    this.config = config;
+    // Copied because updateSubscription() changes the filters at runtime
+    this.config = { ...config };
     this.reconnectDelay = reconnectDelay;
+    this.endpoints = [config.endpoint, ...(config.fallbackEndpoints || [])].map(endpoint => ({
+      endpoint,
+      consecutiveFailures: 0,
+      attempts: 0,
+      totalFailures: 0,
+      lastConnectedAt: null,
+      lastFailureAt: null,
+      stalls: 0
+    }));
     
     // Handle pool errors
     this.pgPool.on('error', (err) => {
@@ -44,167 +126,17 @@ export class JetstreamCollector extends events.EventEmitter {
   }
 
   /**
-   * Initialize database schema
+   * Restore the last saved cursor so we resume where we left off
    */
+  private async loadCursor(): Promise<void> {
+    const cursorResult = await this.pgPool.query(
+      'SELECT cursor_value FROM cursor_state WHERE id = $1',
+      ['main_cursor']
+    );
 
-  private async resetDb(): Promise<boolean> {
-    let client: PoolClient | null = null;
-
-    try {
-      client = await this.pgPool.connect();
-
-      await client.query(`
-        DROP TABLE IF EXISTS feature_vectors CASCADE;
-        DROP TABLE IF EXISTS engagements CASCADE;
-        DROP TABLE IF EXISTS follows CASCADE;
-        DROP TABLE IF EXISTS posts CASCADE;
-        DROP TABLE IF EXISTS tombstones CASCADE;
-        DROP TABLE IF EXISTS cursor_state CASCADE;
-        DROP TABLE IF EXISTS users CASCADE;
-      `);
-
-      console.log('Dropped all tables');
-
-      return await this.initDb();
-    } catch (err) {
-      console.error('Failed to reset database schema:', err)
-      return false;
-    } finally {
-      if (client) {
-        client.release();
-      }
-    }
-  }
-
-  private async initDb(): Promise<boolean> {
-    let client: PoolClient | null = null;
-    
-    try {
-      client = await this.pgPool.connect();
-      
-      // Create records table
-      await client.query(`
-        CREATE TABLE IF NOT EXISTS users (
-          did TEXT PRIMARY KEY,
-          handle TEXT NOT NULL,
-          display_name TEXT,
-          description TEXT,
-          avatar_url TEXT,
-          follower_count INTEGER,
-          following_count INTEGER,
-          post_count INTEGER,
-          activity_level FLOAT,
-          account_age_days INTEGER,
-          CONSTRAINT idx_users_handle UNIQUE (handle)
-        )
-      `);
-      
-      // Create accounts table
-      await client.query(`
-        CREATE TABLE IF NOT EXISTS posts (
-          id SERIAL PRIMARY KEY,
-          did TEXT NOT NULL,
-          rkey TEXT NOT NULL,
-          uri TEXT NOT NULL,
-          cid TEXT NOT NULL,
-          text TEXT,
-          created_at TIMESTAMP WITH TIME ZONE NOT NULL,
-          hour_timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
-          indexed_at TIMESTAMP WITH TIME ZONE NOT NULL,
-          text_length INTEGER,
-          has_image BOOLEAN,
-          image_count SMALLINT,
-          has_external_link BOOLEAN,
-          has_mention BOOLEAN,
-          mention_count SMALLINT,
-          hashtag_count SMALLINT,
-          reply_to TEXT,
-          reply_root TEXT,
-          thread_depth SMALLINT,
-          language TEXT,
-          UNIQUE(did, rkey),
-          CONSTRAINT idx_posts_uri UNIQUE (uri)
-        )
-      `);
-      
-      // Create identities table
-      await client.query(`
-        CREATE TABLE IF NOT EXISTS engagements (
-          id SERIAL PRIMARY KEY,
-          post_uri TEXT NOT NULL REFERENCES posts(uri),
-          actor_did TEXT NOT NULL REFERENCES users(did),
-          type TEXT NOT NULL,
-          created_at TIMESTAMP WITH TIME ZONE NOT NULL,
-          reply_uri TEXT,
-          time_to_engage INTERVAL,
-          actor_follows_author BOOLEAN,
-          raw_data JSONB,
-          UNIQUE(post_uri, actor_did, type)
-        )
-      `);
-
-      // Create social graph
-      await client.query(`
-        CREATE TABLE IF NOT EXISTS follows (
-          follower_did TEXT NOT NULL REFERENCES users(did),
-          followed_did TEXT NOT NULL REFERENCES users(did),
-          created_at TIMESTAMP WITH TIME ZONE NOT NULL,
-          PRIMARY KEY (follower_did, followed_did)
-        )
-      `);
-
-      // Feature store
-      await client.query(`
-        CREATE TABLE IF NOT EXISTS tombstones (
-          id BIGSERIAL PRIMARY KEY,
-          did TEXT NOT NULL,
-          tombstone_data JSONB NOT NULL,
-          created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-        )
-      `);
-
-      // Create tombstones table
-      await client.query(`
-        CREATE TABLE IF NOT EXISTS feature_vectors (
-          id SERIAL PRIMARY KEY,
-          post_uri TEXT NOT NULL REFERENCES posts(uri),
-          computed_at TIMESTAMP WITH TIME ZONE NOT NULL,
-          text_embedding FLOAT[],
-          user_embedding FLOAT[],
-          engagement_features JSONB,
-          UNIQUE(post_uri, computed_at)
-        )
-      `);
-      
-      // Create cursor tracking table
-      await client.query(`
-        CREATE TABLE IF NOT EXISTS cursor_state (
-          id TEXT PRIMARY KEY,
-          cursor_value BIGINT NOT NULL,
-          updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-        )
-      `);
-      
-      // Try to retrieve the last cursor
-      const cursorResult = await client.query(
-        'SELECT cursor_value FROM cursor_state WHERE id = $1',
-        ['main_cursor']
-      );
-      
-      if (cursorResult.rows.length > 0) {
-        this.lastCursor = cursorResult.rows[0].cursor_value;
-        console.log(`Retrieved last cursor: ${this.lastCursor}`);
-      }
-      
-      console.log('Database schema initialized');
-      return true;
-    } catch (err) {
-      console.error('Failed to initialize database schema:', err);
-      return false;
-    } finally {
-      if (client) {
-        client.release();
-      }
+    if (cursorResult.rows.length > 0) {
+      this.lastCursor = Number(cursorResult.rows[0].cursor_value);
+      console.log(`Retrieved last cursor: ${this.lastCursor}`);
     }
   }
 
@@ -212,7 +144,7 @@ export class JetstreamCollector extends events.EventEmitter {
    * Build WebSocket URL with query parameters based on config
    */
   private buildUrl(): string {
-    const url = new URL(this.config.endpoint);
+    const url = new URL(this.endpoints[this.currentEndpoint].endpoint);
     // return url.toString()
     
     if (this.config.wantedCollections && this.config.wantedCollections.length > 0) {
@@ -258,28 +190,59 @@ export class JetstreamCollector extends events.EventEmitter {
     const url = this.buildUrl();
     console.log(`Connecting to Jetstream at ${url}`);
     
+    // A pause for backpressure outlives the socket; the queue hasn't drained yet
     this.ws = new WebSocket(url);
     
     this.ws.on('open', () => {
+      if (this.isPaused) {
+        this.ws!.pause();
+      }
       this.isConnected = true;
+      this.endpoints[this.currentEndpoint].lastConnectedAt = new Date();
       console.log('Connected to Jetstream');
-      this.emit('connected');
+      this.emit('connected', { endpoint: this.endpoints[this.currentEndpoint].endpoint });
       
       // If requireHello is true, send subscriber options
       if (this.config.requireHello) {
         this.sendSubscriberOptions();
       }
+
+      this.startWatchdog();
+    });
+
+    this.ws.on('pong', () => {
+      this.awaitingPong = false;
     });
     
     this.ws.on('message', async (data) => {
+      this.lastMessageAt = Date.now();
+
       try {
-        // Handle compressed data if compression is enabled
-        let messageData = data;
-        if (this.config.compress) {
-          messageData = zlib.unzipSync(data as Buffer);
+        const frame = data as Buffer;
+        this.bytesReceived += frame.length;
+
+        // Compressed frames are zstd with Jetstream's dictionary
+        let messageData = frame;
+        if (this.zstdDecoder) {
+          messageData = this.zstdDecoder.decompress(frame);
         }
+        this.bytesDecompressed += messageData.length;
         
-        const message = JSON.parse(messageData.toString());
+        const text = messageData.toString();
+        const message = JSON.parse(text);
+
+        if (this.archive) {
+          this.archive.write(text, message.time_us || Date.now() * 1000);
+        }
+
+        // Only count the connection as healthy once data flows, so an endpoint
+        // that accepts and immediately drops us still backs off
+        if (this.reconnectAttempt > 0 || this.endpoints[this.currentEndpoint].consecutiveFailures > 0) {
+          this.reconnectAttempt = 0;
+          this.endpoints[this.currentEndpoint].consecutiveFailures = 0;
+          this.endpoints[this.currentEndpoint].attempts = 0;
+        }
+
         await this.processMessage(message);
       } catch (err) {
         console.error('Error processing message:', err);
@@ -288,11 +251,14 @@ export class JetstreamCollector extends events.EventEmitter {
     
     this.ws.on('close', () => {
       this.isConnected = false;
+      this.stopWatchdog();
       console.log('Disconnected from Jetstream');
       this.emit('disconnected');
       
-      // Reconnect after delay
-      setTimeout(() => this.reconnect(), this.reconnectDelay);
+      // Reconnect after delay, unless we closed the socket on purpose
+      if (!this.isStopping) {
+        this.scheduleReconnect();
+      }
     });
     
     this.ws.on('error', (err) => {
@@ -302,30 +268,148 @@ export class JetstreamCollector extends events.EventEmitter {
   }
 
   /**
-   * Send subscriber options (for requireHello = true)
+   * Watch the open socket for silent hangs: ping periodically, and force a
+   * reconnect (from the last cursor) if pongs or messages stop arriving
    */
-  private sendSubscriberOptions() {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+  private startWatchdog() {
+    this.stopWatchdog();
+
+    const pingInterval = this.config.pingIntervalMs || 10_000;
+    const stallTimeout = this.config.stallTimeoutMs ?? 60_000;
+    this.lastMessageAt = Date.now();
+    this.awaitingPong = false;
+
+    this.watchdogTimer = setInterval(() => {
+      if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+
+      // While paused for backpressure nothing is read, pongs included
+      if (this.isPaused) {
+        this.awaitingPong = false;
+        return;
+      }
+
+      if (this.awaitingPong) {
+        this.handleStall('no pong received', pingInterval);
+        return;
+      }
+
+      const silentFor = Date.now() - this.lastMessageAt;
+      if (stallTimeout > 0 && silentFor > stallTimeout) {
+        this.handleStall('no messages received', silentFor);
+        return;
+      }
+
+      this.awaitingPong = true;
+      this.ws.ping();
+    }, pingInterval);
+  }
+
+  private stopWatchdog() {
+    if (this.watchdogTimer) {
+      clearInterval(this.watchdogTimer);
+      this.watchdogTimer = null;
+    }
+  }
+
+  /**
+   * Tear down a stalled socket; the close handler then reconnects from the last cursor
+   */
+  private handleStall(reason: string, silentForMs: number) {
+    const health = this.endpoints[this.currentEndpoint];
+    health.stalls++;
+
+    console.warn(`Jetstream connection to ${health.endpoint} stalled (${reason} for ${silentForMs}ms), reconnecting`);
+    this.emit('stalled', { reason, silentForMs, endpoint: health.endpoint, stalls: health.stalls });
+
+    this.stopWatchdog();
+    if (this.ws) {
+      this.ws.terminate();
+    }
+  }
+
+  /**
+   * Send the current filters as an options_update message
+   * Used to start the stream when requireHello is true, and to change filters live
+   *
+   * @returns Whether the message was sent (false when not connected)
+   */
+  private sendSubscriberOptions(): boolean {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return false;
     
     const options = {
-      type: 'subscriber-options-update',
-      ready: true
+      type: 'options_update',
+      payload: {
+        wantedCollections: this.config.wantedCollections || [],
+        wantedDids: this.config.wantedDids || [],
+        maxMessageSizeBytes: this.config.maxMessageSizeBytes || 0
+      }
     };
     
     this.ws.send(JSON.stringify(options));
+    return true;
+  }
+
+  /**
+   * Change the subscription filters without reconnecting
+   * Fields left undefined keep their current value; empty arrays mean "everything".
+   * The config is updated too, so reconnects use the new filters.
+   *
+   * @param options The filters to change
+   * @returns The subscription now in effect
+   */
+  public updateSubscription(options: SubscriptionOptions): SubscriptionOptions {
+    if (options.wantedCollections && options.wantedCollections.length > MAX_WANTED_COLLECTIONS) {
+      throw new Error(`Jetstream accepts at most ${MAX_WANTED_COLLECTIONS} wantedCollections`);
+    }
+    if (options.wantedDids && options.wantedDids.length > MAX_WANTED_DIDS) {
+      throw new Error(`Jetstream accepts at most ${MAX_WANTED_DIDS} wantedDids`);
+    }
+    if (options.maxMessageSizeBytes !== undefined && options.maxMessageSizeBytes < 0) {
+      throw new Error('maxMessageSizeBytes must not be negative');
+    }
+
+    if (options.wantedCollections !== undefined) {
+      this.config.wantedCollections = [...options.wantedCollections];
+    }
+    if (options.wantedDids !== undefined) {
+      this.config.wantedDids = [...options.wantedDids];
+    }
+    if (options.maxMessageSizeBytes !== undefined) {
+      this.config.maxMessageSizeBytes = options.maxMessageSizeBytes;
+    }
+
+    const sent = this.sendSubscriberOptions();
+    console.log(`Subscription updated${sent ? '' : ' (applies on next connect)'}`);
+
+    const subscription = this.getSubscription();
+    this.emit('subscription-updated', subscription);
+    return subscription;
+  }
+
+  /**
+   * Get the subscription filters currently in effect
+   */
+  public getSubscription(): SubscriptionOptions {
+    return {
+      wantedCollections: [...(this.config.wantedCollections || [])],
+      wantedDids: [...(this.config.wantedDids || [])],
+      maxMessageSizeBytes: this.config.maxMessageSizeBytes
+    };
   }
 
   /**
    * Process incoming message
    */
   private async processMessage(message: any) {
-    // Update cursor for reconnection
+    // Update cursor for reconnection, and track the message until it is acked
+    // so only fully processed events are checkpointed
     if (message.time_us) {
       this.lastCursor = message.time_us;
-      await this.updateCursor(this.lastCursor);
+      this.cursorTracker.begin(message, message.time_us);
     }
     
     // Emit the raw message for custom processing
+    // Listeners must call ack(message) once it has been durably processed
     this.emit('message', message);
     
     // Process different message types
@@ -334,12 +418,6 @@ export class JetstreamCollector extends events.EventEmitter {
       case 'commit':
         await this.processCommit(message);
         break;
-      case 'account':
-        await this.processAccount(message);
-        break;
-      case 'identity':
-        await this.processIdentity(message);
-        break;
       case 'tombstone':
         await this.processTombstone(message);
         break;
@@ -352,6 +430,24 @@ export class JetstreamCollector extends events.EventEmitter {
     */
   }
 
+  /**
+   * Mark a message as durably processed, allowing the checkpoint to move past it
+   */
+  public ack(message: any) {
+    this.cursorTracker.complete(message);
+  }
+
+  /**
+   * Persist the low-watermark of processed messages if it moved since the last checkpoint
+   */
+  private async checkpointCursor() {
+    const cursor = this.cursorTracker.getWatermark();
+    if (cursor <= this.savedCursor) return;
+
+    await this.updateCursor(cursor);
+    this.savedCursor = cursor;
+  }
+
   /**
    * Update cursor in database
    */
@@ -419,32 +515,6 @@ export class JetstreamCollector extends events.EventEmitter {
     }
   }
 
-  /**
-   * Process account message
-   */
-  private async processAccount(message: any) {
-    try {
-      // Handle account creation/updates
-      await this.storeAccount(message);
-      this.emit('account', message);
-    } catch (err) {
-      console.error('Error processing account:', err);
-    }
-  }
-
-  /**
-   * Process identity message
-   */
-  private async processIdentity(message: any) {
-    try {
-      // Handle identity updates
-      await this.storeIdentity(message);
-      this.emit('identity', message);
-    } catch (err) {
-      console.error('Error processing identity:', err);
-    }
-  }
-
   /**
    * Process tombstone message (deleted records)
    */
@@ -499,81 +569,123 @@ export class JetstreamCollector extends events.EventEmitter {
   }
 
   /**
-   * Store account information
+   * Store tombstone information
    */
-  private async storeAccount(data: any) {
+  private async storeTombstone(data: any) {
     try {
       await this.pgPool.query(
-        `INSERT INTO accounts (did, handle, data, updated_at)
-         VALUES ($1, $2, $3, NOW())
-         ON CONFLICT (did)
-         DO UPDATE SET handle = $2, data = $3, updated_at = NOW()`,
+        'INSERT INTO tombstones (did, tombstone_data) VALUES ($1, $2)',
         [
           data.did,
-          data.handle,
           data
         ]
       );
     } catch (err) {
-      console.error('Error storing account:', err);
+      console.error('Error storing tombstone:', err);
     }
   }
 
   /**
-   * Store identity information
+   * Record a failure on the current endpoint and schedule the next attempt
+   * with exponential backoff and jitter, rotating endpoints after repeated failures
    */
-  private async storeIdentity(data: any) {
-    try {
-      await this.pgPool.query(
-        `INSERT INTO identities (did, handle, data, updated_at)
-         VALUES ($1, $2, $3, NOW())
-         ON CONFLICT (did)
-         DO UPDATE SET handle = $2, data = $3, updated_at = NOW()`,
-        [
-          data.did,
-          data.handle,
-          data
-        ]
-      );
-    } catch (err) {
-      console.error('Error storing identity:', err);
+  private scheduleReconnect() {
+    const health = this.endpoints[this.currentEndpoint];
+    health.consecutiveFailures++;
+    health.attempts++;
+    health.totalFailures++;
+    health.lastFailureAt = new Date();
+    this.reconnectAttempt++;
+
+    const failoverAfter = this.config.failoverAfterAttempts || 3;
+    if (this.endpoints.length > 1 && health.attempts >= failoverAfter) {
+      const from = health.endpoint;
+      this.currentEndpoint = this.pickNextEndpoint();
+      const endpoint = this.endpoints[this.currentEndpoint].endpoint;
+
+      console.warn(`Failing over from ${from} to ${endpoint} after ${health.attempts} failures`);
+      this.emit('failover', { attempt: this.reconnectAttempt, from, endpoint });
     }
+
+    // Equal jitter: half the backoff is fixed, half is random
+    const maxDelay = this.config.maxReconnectDelay || 60_000;
+    const backoff = Math.min(maxDelay, this.reconnectDelay * 2 ** (this.reconnectAttempt - 1));
+    const delay = Math.round(backoff / 2 + Math.random() * backoff / 2);
+    const endpoint = this.endpoints[this.currentEndpoint].endpoint;
+
+    console.log(`Reconnecting to Jetstream at ${endpoint} in ${delay}ms (attempt ${this.reconnectAttempt})...`);
+    this.emit('reconnecting', { attempt: this.reconnectAttempt, endpoint, delayMs: delay });
+
+    this.reconnectTimer = setTimeout(() => this.reconnect(), delay);
   }
 
   /**
-   * Store tombstone information
+   * Choose the endpoint to fail over to: the next one in order with the
+   * fewest failures in a row
    */
-  private async storeTombstone(data: any) {
-    try {
-      await this.pgPool.query(
-        'INSERT INTO tombstones (did, tombstone_data) VALUES ($1, $2)',
-        [
-          data.did,
-          data
-        ]
-      );
-    } catch (err) {
-      console.error('Error storing tombstone:', err);
+  private pickNextEndpoint(): number {
+    let best = (this.currentEndpoint + 1) % this.endpoints.length;
+
+    for (let offset = 1; offset < this.endpoints.length; offset++) {
+      const index = (this.currentEndpoint + offset) % this.endpoints.length;
+      if (this.endpoints[index].consecutiveFailures < this.endpoints[best].consecutiveFailures) {
+        best = index;
+      }
     }
+
+    // Give the chosen endpoint a fresh run of attempts before rotating again,
+    // but keep its failure count until it actually connects
+    this.endpoints[best].attempts = 0;
+    return best;
   }
 
   /**
    * Reconnect to WebSocket
    */
   private reconnect() {
-    console.log(`Reconnecting to Jetstream in ${this.reconnectDelay}ms...`);
+    this.reconnectTimer = null;
+    if (this.isStopping) return;
     this.connect();
   }
 
+  /**
+   * Get connection health for every configured endpoint
+   */
+  public getEndpointHealth(): (EndpointHealth & { active: boolean })[] {
+    return this.endpoints.map((health, index) => ({
+      ...health,
+      active: index === this.currentEndpoint
+    }));
+  }
+
   /**
    * Start collecting data
    */
   public async run() {
-    // Initialize database first
-    const dbInitialized = await this.resetDb();
-    if (!dbInitialized) {
-      throw new Error('Failed to initialize database schema');
+    if (this.config.compress) {
+      if (!this.config.zstdDictionaryPath) {
+        throw new Error('Compression requires zstdDictionaryPath (the Jetstream zstd dictionary)');
+      }
+      this.zstdDecoder = await ZstdDecoder.create(
+        this.config.zstdDictionaryPath,
+        Math.max(1024 * 1024, this.config.maxMessageSizeBytes || 0)
+      );
+    }
+
+    if (this.config.archiveDir) {
+      this.archive = new EventArchive({ directory: this.config.archiveDir });
     }
+
+    // Bring the schema up to date without touching existing data
+    await runMigrations(this.pgPool);
+    await this.loadCursor();
+    this.savedCursor = this.lastCursor;
+    this.cursorTracker = new CursorTracker(this.lastCursor);
+
+    this.checkpointTimer = setInterval(
+      () => this.checkpointCursor(),
+      this.config.cursorCheckpointIntervalMs || 5000
+    );
     
     // Connect to Jetstream
     this.connect();
@@ -581,13 +693,83 @@ export class JetstreamCollector extends events.EventEmitter {
   }
 
   /**
-   * Stop collecting data
+   * Get compressed vs. decompressed byte counts
    */
-  public async stop() {
+  public getBandwidthStats(): BandwidthStats {
+    return {
+      compressed: this.zstdDecoder !== null,
+      bytesReceived: this.bytesReceived,
+      bytesDecompressed: this.bytesDecompressed,
+      compressionRatio: this.bytesReceived > 0
+        ? this.bytesDecompressed / this.bytesReceived
+        : null
+    };
+  }
+
+  /**
+   * Stop reading from the WebSocket (backpressure); Jetstream buffers server-side
+   * Stays paused across reconnects until resume()
+   */
+  public pause() {
+    if (this.ws && !this.isPaused) {
+      this.ws.pause();
+    }
+    this.isPaused = true;
+  }
+
+  /**
+   * Resume reading from the WebSocket after pause()
+   */
+  public resume() {
+    if (this.ws && this.isPaused) {
+      this.ws.resume();
+      // The silence while paused doesn't count towards a stall
+      this.lastMessageAt = Date.now();
+    }
+    this.isPaused = false;
+  }
+
+  /**
+   * Close the WebSocket without reconnecting, so no new messages arrive
+   * while in-flight ones finish processing
+   */
+  public disconnect() {
+    this.isStopping = true;
+    this.stopWatchdog();
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
     if (this.ws) {
       this.ws.close();
       this.ws = null;
     }
+  }
+
+  /**
+   * Stop collecting data
+   * Checkpoints whatever has been acked, so stop the processor first
+   */
+  public async stop() {
+    this.disconnect();
+
+    if (this.checkpointTimer) {
+      clearInterval(this.checkpointTimer);
+      this.checkpointTimer = null;
+    }
+    await this.checkpointCursor();
+
+    if (this.zstdDecoder) {
+      this.zstdDecoder.close();
+      this.zstdDecoder = null;
+    }
+
+    if (this.archive) {
+      await this.archive.close();
+      this.archive = null;
+    }
     
     // Close PostgreSQL pool
     await this.pgPool.end();
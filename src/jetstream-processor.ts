@@ -1,6 +1,82 @@
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import events from 'events';
-import { AtpAgent } from '@atproto/api';
+import { BatchWriter, BatchTableSpec } from './batch-writer';
+import { extractEmbeds } from './post-embeds';
+import { resolvePostLanguage } from './post-language';
+import { ThreadTracker } from './thread-tracker';
+import { EngagementEnricher } from './engagement-enricher';
+import { ProfileHydrator } from './profile-hydrator';
+import { IdentityResolver } from './identity-resolver';
+import { DidSequencer } from './did-sequencer';
+
+// Columns written for every post, shared by the batched and direct write paths
+const POST_COLUMNS = [
+  'did', 'rkey', 'uri', 'cid', 'text', 'created_at', 'hour_timestamp', 'indexed_at',
+  'text_length', 'has_image', 'image_count', 'has_external_link',
+  'has_mention', 'mention_count', 'hashtag_count', 'reply_to',
+  'reply_root', 'thread_depth', 'language', 'embed_type', 'external_url',
+  'external_domain', 'external_title', 'link_count', 'quote_uri',
+  'has_video', 'video_alt', 'image_alt_count', 'languages',
+  'language_source', 'language_confidence', 'thread_depth_resolved'
+];
+
+const POST_ON_CONFLICT = `ON CONFLICT (uri) DO UPDATE SET
+  cid = EXCLUDED.cid,
+  text = EXCLUDED.text,
+  indexed_at = EXCLUDED.indexed_at,
+  text_length = EXCLUDED.text_length,
+  has_image = EXCLUDED.has_image,
+  image_count = EXCLUDED.image_count,
+  has_external_link = EXCLUDED.has_external_link,
+  has_mention = EXCLUDED.has_mention,
+  mention_count = EXCLUDED.mention_count,
+  hashtag_count = EXCLUDED.hashtag_count,
+  language = EXCLUDED.language,
+  embed_type = EXCLUDED.embed_type,
+  external_url = EXCLUDED.external_url,
+  external_domain = EXCLUDED.external_domain,
+  external_title = EXCLUDED.external_title,
+  link_count = EXCLUDED.link_count,
+  quote_uri = EXCLUDED.quote_uri,
+  has_video = EXCLUDED.has_video,
+  video_alt = EXCLUDED.video_alt,
+  image_alt_count = EXCLUDED.image_alt_count,
+  languages = EXCLUDED.languages,
+  language_source = EXCLUDED.language_source,
+  language_confidence = EXCLUDED.language_confidence,
+  -- Fields below never change on edit; they are only filled in when a stub becomes a real post
+  created_at = COALESCE(posts.created_at, EXCLUDED.created_at),
+  hour_timestamp = COALESCE(posts.hour_timestamp, EXCLUDED.hour_timestamp),
+  reply_to = COALESCE(posts.reply_to, EXCLUDED.reply_to),
+  reply_root = COALESCE(posts.reply_root, EXCLUDED.reply_root),
+  thread_depth = COALESCE(posts.thread_depth, EXCLUDED.thread_depth),
+  thread_depth_resolved = CASE WHEN posts.is_stub
+    THEN EXCLUDED.thread_depth_resolved ELSE posts.thread_depth_resolved END,
+  author_active = EXCLUDED.author_active,
+  is_stub = false`;
+
+// Posts by an account that is already deactivated or taken down are stored as inactive
+const POST_COMPUTED: NonNullable<BatchTableSpec['computed']> = {
+  author_active: columns => `COALESCE((SELECT active FROM users WHERE did = ${columns.did}), true)`
+};
+
+const ENGAGEMENT_COLUMNS = [
+  'post_uri', 'actor_did', 'type', 'created_at', 'reply_uri',
+  'time_to_engage', 'actor_follows_author', 'raw_data', 'rkey', 'enriched_at'
+];
+
+const ENGAGEMENT_UPDATE = `DO UPDATE SET
+  created_at = EXCLUDED.created_at,
+  raw_data = EXCLUDED.raw_data,
+  time_to_engage = COALESCE(EXCLUDED.time_to_engage, engagements.time_to_engage),
+  actor_follows_author = CASE WHEN EXCLUDED.enriched_at IS NOT NULL
+    THEN EXCLUDED.actor_follows_author ELSE engagements.actor_follows_author END,
+  enriched_at = COALESCE(EXCLUDED.enriched_at, engagements.enriched_at),
+  rkey = EXCLUDED.rkey,
+  deleted_at = NULL`;
+
+// Recently stored or stubbed users and posts, to skip redundant stub writes
+const KNOWN_REFERENCES_CACHE_SIZE = 200_000;
 
 /**
  * Configuration for the JetstreamProcessor
@@ -9,6 +85,31 @@ export interface JetstreamProcessorConfig {
   bskyService?: string;
   bskyHandle?: string;
   bskyPassword?: string;
+  batchSize?: number;
+  batchFlushIntervalMs?: number;
+  threadRefreshIntervalMs?: number;
+  engagementCatchUpIntervalMs?: number;
+  appViewUrl?: string;
+  profileStaleAfterMs?: number;
+  profileRefreshIntervalMs?: number;
+  plcDirectoryUrl?: string;
+  handleResolverUrl?: string;
+  identityCacheTtlMs?: number;
+  identityRequestsPerSecond?: number;
+  // Skip profile hydration and identity resolution, which call the AppView,
+  // the PLC directory and handle domains; for replays and one-off tools
+  offline?: boolean;
+}
+
+/**
+ * An event a handler failed to store
+ */
+export interface ProcessingFailure {
+  // The handler that failed, e.g. 'post-processing'
+  type: string;
+  error: any;
+  // The raw Jetstream event
+  message: any;
 }
 
 /**
@@ -16,10 +117,17 @@ export interface JetstreamProcessorConfig {
  * and stores them in a structured database.
  */
 export class JetstreamProcessor extends events.EventEmitter {
-  private agent: AtpAgent;
   private pgPool: Pool;
   private config: JetstreamProcessorConfig;
   private isRunning: boolean = false;
+  private writer: BatchWriter;
+  private threads: ThreadTracker;
+  private enricher: EngagementEnricher;
+  private hydrator: ProfileHydrator | null = null;
+  private identities: IdentityResolver | null = null;
+  private knownReferences: Map<string, true> = new Map();
+  private sequencer: DidSequencer = new DidSequencer();
+  private failureHandler: ((failure: ProcessingFailure) => Promise<void>) | null = null;
 
   /**
    * Creates a new instance of the JetstreamProcessor
@@ -38,33 +146,92 @@ export class JetstreamProcessor extends events.EventEmitter {
       ...config
     };
 
-    // Initialize ATP agent for API calls
-    this.agent = new AtpAgent({
-      service: 'https://bsky.social'
+    // Buffer high-volume inserts and write them in batches
+    this.writer = new BatchWriter(pgPool, {
+      maxBatchSize: this.config.batchSize,
+      flushIntervalMs: this.config.batchFlushIntervalMs
+    });
+    this.registerBatchTables();
+
+    this.threads = new ThreadTracker(pgPool, {
+      refreshIntervalMs: this.config.threadRefreshIntervalMs
+    });
+
+    this.enricher = new EngagementEnricher(pgPool, {
+      catchUpIntervalMs: this.config.engagementCatchUpIntervalMs
     });
+
+    if (!this.config.offline) {
+      // Profiles are fetched off the ingestion path
+      this.hydrator = new ProfileHydrator(pgPool, {
+        appViewUrl: this.config.appViewUrl,
+        bskyService: this.config.bskyService,
+        bskyHandle: this.config.bskyHandle,
+        bskyPassword: this.config.bskyPassword,
+        staleAfterMs: this.config.profileStaleAfterMs,
+        refreshIntervalMs: this.config.profileRefreshIntervalMs
+      });
+
+      // Handles are only stored once verified against the DID document
+      this.identities = new IdentityResolver(pgPool, {
+        plcDirectoryUrl: this.config.plcDirectoryUrl,
+        handleResolverUrl: this.config.handleResolverUrl,
+        cacheTtlMs: this.config.identityCacheTtlMs,
+        maxRequestsPerSecond: this.config.identityRequestsPerSecond
+      });
+      this.hydrator.on('handle-changed', ({ did }) => this.identities?.enqueue(did));
+    }
+  }
+
+  /**
+   * Get throughput counters for the batched write path
+   */
+  getWriterStats() {
+    return this.writer.getStats();
+  }
+
+  /**
+   * Get profile hydration counters, or null when offline
+   */
+  getHydrationStats() {
+    return this.hydrator ? this.hydrator.getStats() : null;
+  }
+
+  /**
+   * Get DID and handle resolution counters, or null when offline
+   */
+  getIdentityStats() {
+    return this.identities ? this.identities.getStats() : null;
+  }
+
+  /**
+   * Hand failed events to a handler instead of emitting 'error'
+   * processMessage() waits for the handler, and rejects if it does, so the
+   * caller only acks an event once its failure has been recorded
+   *
+   * @param handler The handler, or null to go back to emitting 'error'
+   */
+  setFailureHandler(handler: ((failure: ProcessingFailure) => Promise<void>) | null): void {
+    this.failureHandler = handler;
+  }
+
+  /**
+   * Whether processMessage() currently handles events
+   */
+  isActive(): boolean {
+    return this.isRunning;
   }
 
   /**
    * Initialize the processor and login to Bluesky if credentials provided
    */
   async init(): Promise<void> {
-    // Login to Bluesky if credentials are provided
-    if (this.config.bskyHandle && this.config.bskyPassword) {
-      try {
-        await this.agent.login({
-          identifier: this.config.bskyHandle,
-          password: this.config.bskyPassword
-        });
-        console.log(`Logged in as ${this.config.bskyHandle}`);
-      } catch (err) {
-        console.error('Failed to login to Bluesky:', err);
-        // Continue without login - we can still process events without being logged in
-      }
-    }
+    if (this.hydrator) await this.hydrator.init();
   }
 
   /**
    * Process a post message from Jetstream
+   * Handles both new posts and in-place edits (update commits)
    * 
    * @param message The message from Jetstream
    */
@@ -72,43 +239,101 @@ export class JetstreamProcessor extends events.EventEmitter {
     try {
       // console.log(`Processing post from ${message.did}`);
       const record = message.commit.record;
+      const embeds = extractEmbeds(record);
+      const language = resolvePostLanguage(record);
+      const uri = `at://${message.did}/app.bsky.feed.post/${message.commit.rkey}`;
+      const thread = await this.threads.resolveDepth(uri, record);
+      this.enricher.rememberPost(uri, new Date(record.createdAt));
 
       const postData = {
         did: message.did,
         rkey: message.commit.rkey,
-        uri: `at://${message.did}/app.bsky.feed.post/${message.commit.rkey}`,
+        uri,
         cid: message.commit.cid,
         text: record.text,
         created_at: new Date(record.createdAt),
         hour_timestamp: new Date(new Date(record.createdAt).setMinutes(0, 0, 0)),
         indexed_at: new Date(),
         text_length: record.text ? record.text.length : 0,
-        has_image: Boolean(record.embed && 
-                  (record.embed.$type === 'app.bsky.embed.images' ||
-                    record.embed.$type === 'app.bsky.embed.recordWithMedia')),
-        image_count: this.getImageCount(record),
-        has_external_link: Boolean(record.text && record.text.includes('http')),
+        has_image: embeds.imageCount > 0,
+        image_count: embeds.imageCount,
+        has_external_link: embeds.linkCount > 0,
         has_mention: Boolean(record.text && record.text.includes('@')),
         mention_count: this.countMentions(record),
         hashtag_count: this.countHashtags(record),
         reply_to: record.reply ? record.reply.parent.uri : null,
         reply_root: record.reply ? record.reply.root.uri : null,
-        thread_depth: record.reply ? 1 : 0,
-        language: this.detectLanguage(record.text),
+        thread_depth: thread.depth,
+        thread_depth_resolved: thread.resolved,
+        language: language.language,
+        languages: language.languages,
+        language_source: language.source,
+        language_confidence: language.confidence,
+        embed_type: embeds.embedType,
+        external_url: embeds.externalUrl,
+        external_domain: embeds.externalDomain,
+        external_title: embeds.externalTitle,
+        link_count: embeds.linkCount,
+        quote_uri: embeds.quoteUri,
+        has_video: embeds.hasVideo,
+        video_alt: embeds.videoAlt,
+        image_alt_count: embeds.imageAltCount,
         raw_data: JSON.stringify(record)
       };
 
       // console.log("Processed post:", postData);
-      await this.storePost(postData);
+      if (message.commit.operation === 'update') {
+        await this.storePostRevision(postData);
+        this.emit('post-updated', postData);
+        return;
+      }
+
+      // Replies and quotes also count as engagement with the target post;
+      // posts are flushed before engagements, so these can share a batch
+      const engagements = await this.buildPostEngagements(postData, record);
+      await Promise.all([
+        this.storePost(postData),
+        ...engagements.map(engagementData => this.storeEngagement(engagementData))
+      ]);
+      this.threads.touch(postData.reply_root);
+      this.rememberReference(postData.uri);
       
       // Emit an event that the post was processed
       this.emit('post-processed', postData);
+      for (const engagementData of engagements) {
+        this.emit(`${engagementData.type}-processed`, engagementData);
+      }
     } catch (err) {
       console.error('Error processing post:', err);
-      this.emit('error', { type: 'post-processing', error: err, message });
+      await this.reportFailure({ type: 'post-processing', error: err, message });
     }
   }
 
+  /**
+   * Build the reply and quote engagement rows for a new post
+   * 
+   * @param postData The post being stored
+   * @param record The post record
+   * @returns One row per engaged post, pointing back at this post through reply_uri
+   */
+  private async buildPostEngagements(postData: any, record: any): Promise<any[]> {
+    const targets: { type: string, uri: string }[] = [];
+    if (postData.reply_to) targets.push({ type: 'reply', uri: postData.reply_to });
+    // Quoted feeds, lists and starter packs aren't posts, so they aren't engagement
+    if (postData.quote_uri && isPostUri(postData.quote_uri)) targets.push({ type: 'quote', uri: postData.quote_uri });
+
+    return Promise.all(targets.map(async target => ({
+      post_uri: target.uri,
+      actor_did: postData.did,
+      rkey: postData.rkey,
+      type: target.type,
+      created_at: postData.created_at,
+      reply_uri: postData.uri,
+      ...await this.lookupEngagementContext(target.uri, postData.did, postData.created_at),
+      raw_data: record
+    })));
+  }
+
   /**
    * Process a like message from Jetstream
    * 
@@ -118,15 +343,23 @@ export class JetstreamProcessor extends events.EventEmitter {
     try {
       console.log(`Processing like from ${message.did}`);
       const record = message.commit.record;
+      if (!isPostUri(record.subject.uri)) {
+        // Engagement rows point at posts; a like of a feed or list only tells us its owner exists
+        await this.writeStubs([message.did], [record.subject.uri]);
+        return;
+      }
+
+      const createdAt = new Date(record.createdAt);
+      const context = await this.lookupEngagementContext(record.subject.uri, message.did, createdAt);
       
       const engagementData = {
         post_uri: record.subject.uri,
         actor_did: message.did,
+        rkey: message.commit.rkey,
         type: 'like',
-        created_at: new Date(record.createdAt),
+        created_at: createdAt,
         reply_uri: null,
-        time_to_engage: null, // Would require lookup of original post time
-        actor_follows_author: false, // Would require social graph lookup
+        ...context,
         raw_data: record
       };
       
@@ -134,7 +367,7 @@ export class JetstreamProcessor extends events.EventEmitter {
       this.emit('like-processed', engagementData);
     } catch (err) {
       console.error('Error processing like:', err);
-      this.emit('error', { type: 'like-processing', error: err, message });
+      await this.reportFailure({ type: 'like-processing', error: err, message });
     }
   }
 
@@ -147,15 +380,23 @@ export class JetstreamProcessor extends events.EventEmitter {
     try {
       console.log(`Processing repost from ${message.did}`);
       const record = message.commit.record;
+      if (!isPostUri(record.subject.uri)) {
+        // Engagement rows point at posts; a repost of a feed or list only tells us its owner exists
+        await this.writeStubs([message.did], [record.subject.uri]);
+        return;
+      }
+
+      const createdAt = new Date(record.createdAt);
+      const context = await this.lookupEngagementContext(record.subject.uri, message.did, createdAt);
       
       const engagementData = {
         post_uri: record.subject.uri,
         actor_did: message.did,
+        rkey: message.commit.rkey,
         type: 'repost',
-        created_at: new Date(record.createdAt),
+        created_at: createdAt,
         reply_uri: null,
-        time_to_engage: null,
-        actor_follows_author: false,
+        ...context,
         raw_data: record
       };
       
@@ -163,7 +404,7 @@ export class JetstreamProcessor extends events.EventEmitter {
       this.emit('repost-processed', engagementData);
     } catch (err) {
       console.error('Error processing repost:', err);
-      this.emit('error', { type: 'repost-processing', error: err, message });
+      await this.reportFailure({ type: 'repost-processing', error: err, message });
     }
   }
 
@@ -180,6 +421,7 @@ export class JetstreamProcessor extends events.EventEmitter {
       const followData = {
         follower_did: message.did,
         followed_did: record.subject,
+        rkey: message.commit.rkey,
         created_at: new Date(record.createdAt)
       };
       
@@ -187,101 +429,175 @@ export class JetstreamProcessor extends events.EventEmitter {
       this.emit('follow-processed', followData);
     } catch (err) {
       console.error('Error processing follow:', err);
-      this.emit('error', { type: 'follow-processing', error: err, message });
+      await this.reportFailure({ type: 'follow-processing', error: err, message });
     }
   }
 
   /**
-   * Process a profile message from Jetstream
+   * Process a delete commit from Jetstream
+   * Soft-deletes the stored row matching the author's did and record key
    * 
    * @param message The message from Jetstream
    */
-  async processProfile(message: any): Promise<void> {
+  async processDelete(message: any): Promise<void> {
     try {
-      // console.log(`Processing profile for ${message.did}`);
-      const record = message.commit.record;
+      const { collection, rkey } = message.commit;
 
-      // Try to get a full profile using the agent
-      let profileData: any = { handle: '' };
-      if (this.agent.session) {
-        try {
-          const profileResponse = await this.agent.api.app.bsky.actor.getProfile({ actor: message.did });
-          profileData = profileResponse.data;
-          console.log("Full profile data:", profileData);
-        } catch (err) {
-          console.warn(`Couldn't fetch full profile for ${message.did}:`, err);
-          // Continue with limited profile data
-        }
+      const deleteData = {
+        did: message.did,
+        collection,
+        rkey,
+        deleted_at: new Date()
+      };
+
+      const deleted = await this.markDeleted(deleteData);
+      if (deleted) {
+        this.emit('delete-processed', deleteData);
       }
+    } catch (err) {
+      console.error('Error processing delete:', err);
+      await this.reportFailure({ type: 'delete-processing', error: err, message });
+    }
+  }
 
+  /**
+   * Process a profile message from Jetstream
+   * 
+   * @param message The message from Jetstream
+   */
+  async processProfile(message: any): Promise<void> {
+    try {
+      const record = message.commit.record || {};
+
+      // The record has no handle, avatar URL or counts; those come from hydration
       const userData = {
         did: message.did,
-        handle: profileData.handle || record.handle || '', 
         display_name: record.displayName || '',
         description: record.description || '',
-        avatar_url: profileData.avatar || '', 
-        follower_count: profileData.followersCount || null, 
-        following_count: profileData.followsCount || null,
-        post_count: profileData.postsCount || null,
         first_seen_at: new Date(),
         last_updated_at: new Date()
       };
       
       await this.updateUserProfile(userData);
+      this.hydrator?.enqueue(message.did, true);
       this.emit('profile-processed', userData);
     } catch (err) {
       console.error('Error processing profile:', err);
-      this.emit('error', { type: 'profile-processing', error: err, message });
+      await this.reportFailure({ type: 'profile-processing', error: err, message });
     }
   }
 
   /**
-   * Process an account update message from Jetstream
+   * Process an identity event from Jetstream
+   * Identity events signal that the DID document or handle changed; the
+   * handle they carry is only stored once the resolver has verified it
    * 
    * @param message The message from Jetstream
    */
-  async processAccountUpdate(message: any): Promise<void> {
+  async processIdentity(message: any): Promise<void> {
     try {
-      console.log(`Processing account update for ${message.did}`);
-      
+      const identity = message.identity || {};
+
       const userData = {
-        did: message.did,
-        handle: message.handle,
+        did: identity.did || message.did,
+        handle: identity.handle || null,
         last_updated_at: new Date()
       };
       
-      await this.updateUserHandle(userData);
-      this.emit('account-processed', userData);
+      this.identities?.invalidate(userData.did);
+      this.identities?.enqueue(userData.did);
+      this.emit('identity-processed', userData);
+    } catch (err) {
+      console.error('Error processing identity event:', err);
+      await this.reportFailure({ type: 'identity-processing', error: err, message });
+    }
+  }
+
+  /**
+   * Process an account event from Jetstream
+   * Records the status change and flags the account's posts when it becomes inactive
+   * 
+   * @param message The message from Jetstream
+   */
+  async processAccount(message: any): Promise<void> {
+    try {
+      const account = message.account || {};
+
+      const accountData = {
+        did: account.did || message.did,
+        active: Boolean(account.active),
+        // Jetstream omits status for active accounts
+        status: account.status || (account.active ? 'active' : null),
+        seq: account.seq ?? null,
+        event_time: account.time ? new Date(account.time) : null,
+        updated_at: new Date()
+      };
+      
+      await this.storeAccountStatus(accountData);
+      this.emit('account-processed', accountData);
     } catch (err) {
       console.error('Error processing account event:', err);
-      this.emit('error', { type: 'account-processing', error: err, message });
+      await this.reportFailure({ type: 'account-processing', error: err, message });
     }
   }
 
   /**
    * Process a message from Jetstream
-   * Routes the message to the appropriate handler based on its type
+   * Routes the message to the appropriate handler based on its type. Handlers
+   * may run concurrently, but a message never overtakes an earlier one for the
+   * same DID that it depends on, e.g. a delete waits for the create it undoes
    * 
    * @param message The message from Jetstream
    */
   async processMessage(message: any): Promise<void> {
     // Skip if not running
     if (!this.isRunning) return;
+    if (!message) return;
+
+    // Creates only add new records, so they may overlap each other
+    const exclusive = !(message.kind === 'commit' && message.commit?.operation === 'create');
+    const release = message.did ? await this.sequencer.acquire(message.did, exclusive) : null;
 
     try {
-      // Skip non-commit messages or those without record
-      if (!message || !message.commit) {
-        // Check if it's an account event
-        if (message && message.did && message.handle) {
-          await this.processAccountUpdate(message);
+      await this.routeMessage(message);
+    } finally {
+      if (release) release();
+    }
+  }
+
+  /**
+   * Hand a message to the handler for its kind and collection
+   * 
+   * @param message The message from Jetstream
+   */
+  private async routeMessage(message: any): Promise<void> {
+    try {
+      if (message.did) this.hydrator?.enqueue(message.did);
+
+      if (message.kind === 'identity' || message.kind === 'account') {
+        if (message.kind === 'identity') {
+          await this.processIdentity(message);
+        } else {
+          await this.processAccount(message);
         }
+
+        this.emit('message-processed', {
+          type: message.kind,
+          operation: null,
+          did: message.did
+        });
         return;
       }
 
+      // Skip non-commit messages or those without record
+      if (!message.commit) return;
+
       // Process based on collection and operation type
       const { collection, operation } = message.commit;
       
-      if (collection === 'app.bsky.feed.post' && operation === 'create') {
+      if (operation === 'delete') {
+        await this.processDelete(message);
+      } else if (collection === 'app.bsky.feed.post') {
         await this.processPost(message);
       } else if (collection === 'app.bsky.feed.like') {
         await this.processLike(message);
@@ -301,7 +617,20 @@ export class JetstreamProcessor extends events.EventEmitter {
       });
     } catch (err) {
       console.error('Error processing message:', err);
-      this.emit('error', { type: 'message-processing', error: err, message });
+      await this.reportFailure({ type: 'message-processing', error: err, message });
+    }
+  }
+
+  /**
+   * Pass a failed event to the failure handler, or emit it as 'error' when there is none
+   * 
+   * @param failure The handler that failed, what it threw and the event
+   */
+  private async reportFailure(failure: ProcessingFailure): Promise<void> {
+    if (this.failureHandler) {
+      await this.failureHandler(failure);
+    } else {
+      this.emit('error', failure);
     }
   }
 
@@ -310,6 +639,11 @@ export class JetstreamProcessor extends events.EventEmitter {
    */
   async start(): Promise<void> {
     await this.init();
+    this.writer.start();
+    this.threads.start();
+    this.enricher.start();
+    this.hydrator?.start();
+    this.identities?.start();
     this.isRunning = true;
     console.log('JetstreamProcessor started');
     this.emit('started');
@@ -321,6 +655,12 @@ export class JetstreamProcessor extends events.EventEmitter {
    */
   async stop(): Promise<void> {
     this.isRunning = false;
+    // Write out anything still buffered before shutting down
+    await this.writer.close();
+    await this.threads.stop();
+    await this.enricher.stop();
+    await this.hydrator?.stop();
+    await this.identities?.stop();
     console.log('JetstreamProcessor stopped');
     this.emit('stopped');
     return;
@@ -333,44 +673,82 @@ export class JetstreamProcessor extends events.EventEmitter {
    */
   private async storePost(postData: any): Promise<void> {
     try {
+      await this.writer.write('posts', postData);
+    } catch (err) {
+      console.error('Error storing post:', err);
+      throw err;
+    }
+  }
+
+  /**
+   * Store an edited post, archiving the version it replaces
+   * 
+   * @param postData The post data from the update commit
+   */
+  private async storePostRevision(postData: any): Promise<void> {
+    try {
+      // Make sure a buffered create for this post is stored before we archive it
+      await this.writer.barrier(postData.did);
+
       const client = await this.pgPool.connect();
 
       try {
-        await client.query(`
-          INSERT INTO posts (
-            did, rkey, uri, cid, text, created_at, hour_timestamp, indexed_at,
-            text_length, has_image, image_count, has_external_link,
-            has_mention, mention_count, hashtag_count, reply_to,
-            reply_root, thread_depth, language
-          ) VALUES (
-          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19
-          ) ON CONFLICT (uri) DO UPDATE SET
-            text = $5,
-            indexed_at = $8,
-            text_length = $9,
-            has_image = $10,
-            image_count = $11,
-            has_external_link = $12,
-            has_mention = $13,
-            mention_count = $14,
-            hashtag_count = $15
-          `, [
-            postData.did, postData.rkey, postData.uri, postData.cid, postData.text,
-            postData.created_at, postData.hour_timestamp, postData.indexed_at, postData.text_length,
-            postData.has_image, postData.image_count, postData.has_external_link,
-            postData.has_mention, postData.mention_count, postData.hashtag_count,
-            postData.reply_to, postData.reply_root, postData.thread_depth,
-            postData.language
-          ]);
+        await client.query('BEGIN');
+
+        // Only archive when the content actually changed (replays carry the same cid)
+        const archived = await client.query(`
+          INSERT INTO post_revisions (
+            post_uri, cid, text, text_length, has_image, has_external_link,
+            language, indexed_at, superseded_by_cid, superseded_at
+          )
+          SELECT
+            uri, cid, text, text_length, has_image, has_external_link,
+            language, indexed_at, $2, $3
+          FROM posts
+          WHERE uri = $1 AND cid <> $2
+        `, [postData.uri, postData.cid, postData.indexed_at]);
+
+        await this.upsertPost(client, postData);
+
+        if ((archived.rowCount ?? 0) > 0) {
+          await client.query(`
+            UPDATE posts SET
+              edited_at = $2,
+              revision_count = revision_count + 1
+            WHERE uri = $1
+          `, [postData.uri, postData.indexed_at]);
+        }
+
+        await client.query('COMMIT');
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
       } finally {
         client.release();
       }
     } catch (err) {
-      console.error('Error storing post:', err);
+      console.error('Error storing post revision:', err);
       throw err;
     }
   }
 
+  /**
+   * Insert a post or overwrite the stored version with the given data
+   * 
+   * @param client The client to run the query on
+   * @param postData The post data to store
+   */
+  private async upsertPost(client: PoolClient, postData: any): Promise<void> {
+    const placeholders = Object.fromEntries(POST_COLUMNS.map((column, i) => [column, `$${i + 1}`]));
+    const computed = Object.entries(POST_COMPUTED);
+
+    await client.query(`
+      INSERT INTO posts (${[...POST_COLUMNS, ...computed.map(([column]) => column)].join(', ')})
+      VALUES (${[...Object.values(placeholders), ...computed.map(([, expression]) => expression(placeholders))].join(', ')})
+      ${POST_ON_CONFLICT}
+    `, POST_COLUMNS.map(column => postData[column]));
+  }
+
   /**
    * Store an engagement in the database
    * 
@@ -378,27 +756,10 @@ export class JetstreamProcessor extends events.EventEmitter {
    */
   private async storeEngagement(engagementData: any): Promise<void> {
     try {
-      const client = await this.pgPool.connect();
-      
-      try {
-        await client.query(`
-          INSERT INTO engagements (
-            post_uri, actor_did, type, created_at, reply_uri, 
-            time_to_engage, actor_follows_author, raw_data
-          ) VALUES (
-            $1, $2, $3, $4, $5, $6, $7, $8
-          ) ON CONFLICT (post_uri, actor_did, type) DO UPDATE SET
-            created_at = $4,
-            raw_data = $8
-        `, [
-          engagementData.post_uri, engagementData.actor_did, engagementData.type,
-          engagementData.created_at, engagementData.reply_uri,
-          engagementData.time_to_engage, engagementData.actor_follows_author,
-          engagementData.raw_data
-        ]);
-      } finally {
-        client.release();
-      }
+      await Promise.all([
+        this.writeStubs([engagementData.actor_did], [engagementData.post_uri]),
+        this.writer.write(engagementData.reply_uri ? 'post_engagements' : 'engagements', engagementData)
+      ]);
     } catch (err) {
       console.error('Error storing engagement:', err);
       throw err;
@@ -412,28 +773,203 @@ export class JetstreamProcessor extends events.EventEmitter {
    */
   private async storeFollow(followData: any): Promise<void> {
     try {
-      const client = await this.pgPool.connect();
-      
-      try {
-        await client.query(`
-          INSERT INTO follows (
-            follower_did, followed_did, created_at
-          ) VALUES (
-            $1, $2, $3
-          ) ON CONFLICT (follower_did, followed_did) DO UPDATE SET
-            created_at = $3
-        `, [
-          followData.follower_did, followData.followed_did, followData.created_at
-        ]);
-      } finally {
-        client.release();
-      }
+      await Promise.all([
+        this.writeStubs([followData.follower_did, followData.followed_did], []),
+        this.writer.write('follows', followData)
+      ]);
     } catch (err) {
       console.error('Error storing follow:', err);
       throw err;
     }
   }
 
+  /**
+   * Write placeholder rows for users and posts we haven't seen yet
+   * Stub rows are buffered before the row referencing them and their tables
+   * are flushed first, so the foreign keys hold within the same batch
+   * 
+   * @param dids Users the caller's row references
+   * @param postUris Posts the caller's row references; for other records only their owner is stubbed
+   */
+  private writeStubs(dids: string[], postUris: string[]): Promise<void> {
+    const writes: Promise<void>[] = [];
+
+    for (const did of dids) {
+      this.hydrator?.enqueue(did);
+      if (this.knownReferences.has(did)) continue;
+      writes.push(this.writer.write('user_stubs', { did, is_stub: true })
+        .then(() => this.rememberReference(did)));
+    }
+
+    for (const uri of postUris) {
+      if (this.knownReferences.has(uri)) continue;
+      // at://<did>/<collection>/<rkey>
+      const [, , did, , rkey] = uri.split('/');
+
+      if (!isPostUri(uri)) {
+        this.hydrator?.enqueue(did);
+        if (!this.knownReferences.has(did)) {
+          writes.push(this.writer.write('user_stubs', { did, is_stub: true })
+            .then(() => this.rememberReference(did)));
+        }
+        continue;
+      }
+
+      writes.push(this.writer.write('post_stubs', {
+        did,
+        rkey,
+        uri,
+        indexed_at: new Date(),
+        // Replies to a stub wait for the real post before resolving their depth
+        thread_depth_resolved: false,
+        is_stub: true
+      }).then(() => this.rememberReference(uri)));
+    }
+
+    return Promise.all(writes).then(() => undefined);
+  }
+
+  /**
+   * Note a user or post that exists in the database
+   * 
+   * @param key A DID or post URI
+   */
+  private rememberReference(key: string): void {
+    this.knownReferences.delete(key);
+    this.knownReferences.set(key, true);
+
+    if (this.knownReferences.size > KNOWN_REFERENCES_CACHE_SIZE) {
+      this.knownReferences.delete(this.knownReferences.keys().next().value!);
+    }
+  }
+
+  /**
+   * Compute time_to_engage and actor_follows_author for a new engagement
+   * 
+   * @param postUri The engaged post
+   * @param actorDid Who engaged
+   * @param createdAt When they engaged
+   */
+  private async lookupEngagementContext(postUri: string, actorDid: string, createdAt: Date) {
+    // A follow made just before the engagement may not be stored yet
+    const authorDid = postUri.split('/')[2];
+    const pendingFollow = this.writer.findPending('follows', `${actorDid}|${authorDid}`);
+    const followPending = pendingFollow !== null && new Date(pendingFollow.created_at) <= createdAt;
+
+    return this.enricher.lookup(postUri, actorDid, createdAt, followPending);
+  }
+
+  /**
+   * Register the tables written through the batch writer
+   * Order matters: users and posts, including stubs, are flushed before the
+   * engagements and follows that reference them
+   */
+  private registerBatchTables(): void {
+    this.writer.registerTable('user_stubs', {
+      table: 'users',
+      columns: ['did', 'is_stub'],
+      onConflict: 'ON CONFLICT (did) DO NOTHING',
+      key: row => row.did,
+      did: row => row.did
+    });
+
+    this.writer.registerTable('posts', {
+      columns: POST_COLUMNS,
+      computed: POST_COMPUTED,
+      onConflict: POST_ON_CONFLICT,
+      key: row => row.uri,
+      did: row => row.did
+    });
+
+    // Registered after posts, so a real post in the same batch wins
+    this.writer.registerTable('post_stubs', {
+      table: 'posts',
+      columns: ['did', 'rkey', 'uri', 'indexed_at', 'thread_depth_resolved', 'is_stub'],
+      computed: POST_COMPUTED,
+      onConflict: 'ON CONFLICT DO NOTHING',
+      key: row => row.uri,
+      did: row => row.did
+    });
+
+    // Likes and reposts: one per actor and post
+    this.writer.registerTable('engagements', {
+      columns: ENGAGEMENT_COLUMNS,
+      onConflict: `ON CONFLICT (post_uri, actor_did, type) WHERE reply_uri IS NULL ${ENGAGEMENT_UPDATE}`,
+      key: row => `${row.post_uri}|${row.actor_did}|${row.type}`,
+      did: row => row.actor_did
+    });
+
+    // Replies and quotes: one per replying or quoting post
+    this.writer.registerTable('post_engagements', {
+      table: 'engagements',
+      columns: ENGAGEMENT_COLUMNS,
+      onConflict: `ON CONFLICT (reply_uri, type) WHERE reply_uri IS NOT NULL ${ENGAGEMENT_UPDATE}`,
+      key: row => `${row.reply_uri}|${row.type}`,
+      did: row => row.actor_did
+    });
+
+    this.writer.registerTable('follows', {
+      columns: ['follower_did', 'followed_did', 'created_at', 'rkey'],
+      onConflict: `ON CONFLICT (follower_did, followed_did) DO UPDATE SET
+        created_at = EXCLUDED.created_at,
+        rkey = EXCLUDED.rkey,
+        deleted_at = NULL`,
+      key: row => `${row.follower_did}|${row.followed_did}`,
+      did: row => row.follower_did
+    });
+  }
+
+  /**
+   * Soft-delete the row a delete commit refers to
+   * 
+   * @param deleteData The author did, collection and record key of the deleted record
+   * @returns Whether a matching row was found
+   */
+  private async markDeleted(deleteData: any): Promise<boolean> {
+    const { did, collection, rkey, deleted_at } = deleteData;
+
+    let query: string;
+    let params: any[];
+
+    if (collection === 'app.bsky.feed.post') {
+      // The post's reply and quote engagements go with it
+      query = `WITH deleted_post AS (
+          UPDATE posts SET deleted_at = $3
+          WHERE did = $1 AND rkey = $2 AND deleted_at IS NULL
+          RETURNING reply_root
+        ), deleted_engagements AS (
+          UPDATE engagements SET deleted_at = $3
+          WHERE actor_did = $1 AND rkey = $2 AND type IN ('reply', 'quote') AND deleted_at IS NULL
+        )
+        SELECT reply_root FROM deleted_post`;
+      params = [did, rkey, deleted_at];
+    } else if (collection === 'app.bsky.feed.like' || collection === 'app.bsky.feed.repost') {
+      query = `UPDATE engagements SET deleted_at = $4
+        WHERE actor_did = $1 AND rkey = $2 AND type = $3 AND deleted_at IS NULL`;
+      params = [did, rkey, collection === 'app.bsky.feed.like' ? 'like' : 'repost', deleted_at];
+    } else if (collection === 'app.bsky.graph.follow') {
+      query = 'UPDATE follows SET deleted_at = $3 WHERE follower_did = $1 AND rkey = $2 AND deleted_at IS NULL';
+      params = [did, rkey, deleted_at];
+    } else {
+      return false;
+    }
+
+    try {
+      // The record being deleted may still be sitting in the write buffer
+      await this.writer.barrier(did);
+
+      const result = await this.pgPool.query(query, params);
+      if (collection === 'app.bsky.feed.post') {
+        // A deleted reply no longer counts towards its thread
+        this.threads.touch(result.rows[0]?.reply_root);
+      }
+      return (result.rowCount ?? 0) > 0;
+    } catch (err) {
+      console.error('Error marking record deleted:', err);
+      throw err;
+    }
+  }
+
   /**
    * Update a user profile in the database
    * 
@@ -446,24 +982,17 @@ export class JetstreamProcessor extends events.EventEmitter {
       try {
         await client.query(`
           INSERT INTO users (
-            did, handle, display_name, description, avatar_url,
-            follower_count, following_count, post_count,
-            first_seen_at, last_updated_at
+            did, display_name, description, first_seen_at, last_updated_at
           ) VALUES (
-            $1, $2, $3, $4, $5, $6, $7, $8, $9, $10
+            $1, $2, $3, $4, $5
           ) ON CONFLICT (did) DO UPDATE SET
-            handle = $2,
-            display_name = $3,
-            description = $4,
-            avatar_url = $5,
-            follower_count = $6,
-            following_count = $7,
-            post_count = $8,
-            last_updated_at = $10
+            display_name = $2,
+            description = $3,
+            last_updated_at = $5,
+            is_stub = false
         `, [
-          userData.did, userData.handle, userData.display_name, userData.description,
-          userData.avatar_url, userData.follower_count, userData.following_count,
-          userData.post_count, userData.first_seen_at, userData.last_updated_at
+          userData.did, userData.display_name, userData.description,
+          userData.first_seen_at, userData.last_updated_at
         ]);
       } finally {
         client.release();
@@ -475,56 +1004,76 @@ export class JetstreamProcessor extends events.EventEmitter {
   }
 
   /**
-   * Update a user handle in the database
+   * Record an account status change and propagate it to the user and their posts,
+   * unless the user already has the status from a later event
    * 
-   * @param userData The user data to update
+   * @param accountData The account status data to store
    */
-  private async updateUserHandle(userData: any): Promise<void> {
+  private async storeAccountStatus(accountData: any): Promise<void> {
     try {
+      await this.writer.barrier(accountData.did);
+
       const client = await this.pgPool.connect();
       
       try {
+        await client.query('BEGIN');
+
         await client.query(`
-          INSERT INTO users (
-            did, handle, last_updated_at
+          INSERT INTO account_status_history (
+            did, active, status, seq, event_time
           ) VALUES (
-            $1, $2, $3
-          ) ON CONFLICT (did) DO UPDATE SET
-            handle = $2,
-            last_updated_at = $3
+            $1, $2, $3, $4, $5
+          )
         `, [
-          userData.did, userData.handle, userData.last_updated_at
+          accountData.did, accountData.active, accountData.status,
+          accountData.seq, accountData.event_time
         ]);
+
+        // Replayed or reordered events older than the stored status only go into the history
+        const current = await client.query(
+          'SELECT account_seq FROM users WHERE did = $1 FOR UPDATE',
+          [accountData.did]
+        );
+        const storedSeq = current.rows[0]?.account_seq;
+        const stale = accountData.seq !== null && storedSeq != null && Number(storedSeq) >= accountData.seq;
+
+        if (!stale) {
+          // An account we haven't seen yet is stored as a stub, so its later posts pick up the status
+          await client.query(`
+            INSERT INTO users (
+              did, is_stub, active, account_status, status_updated_at, last_updated_at, account_seq
+            ) VALUES (
+              $1, true, $2, $3, $4, $4, $5
+            ) ON CONFLICT (did) DO UPDATE SET
+              active = EXCLUDED.active,
+              account_status = EXCLUDED.account_status,
+              status_updated_at = EXCLUDED.status_updated_at,
+              last_updated_at = EXCLUDED.last_updated_at,
+              account_seq = COALESCE(EXCLUDED.account_seq, users.account_seq)
+          `, [accountData.did, accountData.active, accountData.status, accountData.updated_at, accountData.seq]);
+
+          await client.query(`
+            UPDATE posts SET author_active = $2
+            WHERE did = $1 AND author_active <> $2
+          `, [accountData.did, accountData.active]);
+        }
+
+        await client.query('COMMIT');
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
       } finally {
         client.release();
       }
+
+      this.rememberReference(accountData.did);
+      this.hydrator?.enqueue(accountData.did);
     } catch (err) {
-      console.error('Error updating user handle:', err);
+      console.error('Error storing account status:', err);
       throw err;
     }
   }
 
-  /**
-   * Get the number of images in a post
-   * 
-   * @param record The post record
-   * @returns The number of images
-   */
-  private getImageCount(record: any): number {
-    if (!record.embed) return 0;
-    
-    if (record.embed.$type === 'app.bsky.embed.images') {
-      return record.embed.images.length;
-    }
-    
-    if (record.embed.$type === 'app.bsky.embed.recordWithMedia' && 
-        record.embed.media.$type === 'app.bsky.embed.images') {
-      return record.embed.media.images.length;
-    }
-    
-    return 0;
-  }
-
   /**
    * Count the number of mentions in a post
    * 
@@ -564,29 +1113,11 @@ export class JetstreamProcessor extends events.EventEmitter {
     // Simple # count if facets aren't available
     return (record.text.match(/#\w+/g) || []).length;
   }
+}
 
-  /**
-   * Detect the language of a post
-   * 
-   * @param text The post text
-   * @returns The detected language code
-   */
-  private detectLanguage(text: string | null | undefined): string {
-    if (!text) return 'unknown';
-    
-    // Very simple detection
-    // In production, consider using Compact Language Detector or other libraries
-    if (/[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff66-\uff9f]/.test(text)) {
-      return 'ja'; // Japanese
-    }
-    if (/[\u0600-\u06FF]/.test(text)) {
-      return 'ar'; // Arabic
-    }
-    if (/[\u0400-\u04FF]/.test(text)) {
-      return 'ru'; // Russian
-    }
-    
-    // Default to English
-    return 'en';
-  }
-}
\ No newline at end of file
+/**
+ * Whether an AT-URI points at a post, as opposed to a feed, list or other record
+ */
+function isPostUri(uri: string): boolean {
+  return uri.split('/')[3] === 'app.bsky.feed.post';
+}
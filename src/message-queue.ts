@@ -0,0 +1,131 @@
+import events from 'events';
+
+/**
+ * Configuration for the MessageQueue
+ */
+export interface MessageQueueConfig {
+  // Messages allowed to wait before the queue reports itself full
+  maxSize?: number;
+  // Messages handled at once. Handlers wait for the batch writer to flush,
+  // so keep this at or above the writer's batch size
+  concurrency?: number;
+}
+
+/**
+ * Queue depth and lag, for monitoring whether ingestion keeps up
+ */
+export interface MessageQueueStats {
+  queued: number;
+  inFlight: number;
+  processed: number;
+  lastProcessedTimeUs: number;
+  // Milliseconds between now and the newest processed event's time_us
+  lagMs: number | null;
+  isFull: boolean;
+}
+
+/**
+ * MessageQueue sits between the collector and the processor. It runs a
+ * bounded number of handlers at once, and emits 'full' / 'drained' so the
+ * producer can pause and resume reading instead of growing memory without limit.
+ */
+export class MessageQueue extends events.EventEmitter {
+  private handler: (message: any) => Promise<void>;
+  private maxSize: number;
+  private concurrency: number;
+  private queue: any[] = [];
+  private inFlight: number = 0;
+  private processed: number = 0;
+  private lastProcessedTimeUs: number = 0;
+  private isFull: boolean = false;
+  private idleWaiters: (() => void)[] = [];
+
+  constructor(handler: (message: any) => Promise<void>, config: MessageQueueConfig = {}) {
+    super();
+
+    this.handler = handler;
+    this.maxSize = config.maxSize || 10_000;
+    this.concurrency = config.concurrency || 1000;
+  }
+
+  /**
+   * Add a message to the queue
+   * Never drops: messages pushed while full are still queued, the 'full'
+   * event is the signal to stop producing
+   *
+   * @param message The message to handle
+   */
+  push(message: any): void {
+    this.queue.push(message);
+
+    if (!this.isFull && this.queue.length >= this.maxSize) {
+      this.isFull = true;
+      console.warn(`Message queue full (${this.queue.length} queued), applying backpressure`);
+      this.emit('full', this.getStats());
+    }
+
+    this.pump();
+  }
+
+  /**
+   * Wait until every queued and in-flight message has been handled
+   */
+  drain(): Promise<void> {
+    if (this.queue.length === 0 && this.inFlight === 0) {
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  /**
+   * Get queue depth and lag
+   */
+  getStats(): MessageQueueStats {
+    return {
+      queued: this.queue.length,
+      inFlight: this.inFlight,
+      processed: this.processed,
+      lastProcessedTimeUs: this.lastProcessedTimeUs,
+      lagMs: this.lastProcessedTimeUs > 0
+        ? Math.max(0, Date.now() - Math.floor(this.lastProcessedTimeUs / 1000))
+        : null,
+      isFull: this.isFull
+    };
+  }
+
+  private pump(): void {
+    while (this.inFlight < this.concurrency && this.queue.length > 0) {
+      const message = this.queue.shift();
+      this.inFlight++;
+
+      this.handler(message)
+        .catch(err => console.error('Unhandled error in queued message handler:', err))
+        .finally(() => this.onHandled(message));
+    }
+  }
+
+  private onHandled(message: any): void {
+    this.inFlight--;
+    this.processed++;
+
+    if (message && message.time_us > this.lastProcessedTimeUs) {
+      this.lastProcessedTimeUs = message.time_us;
+    }
+
+    // Resume once we're back under half capacity, so we don't flap at the limit
+    if (this.isFull && this.queue.length < this.maxSize / 2) {
+      this.isFull = false;
+      console.log(`Message queue drained (${this.queue.length} queued), resuming`);
+      this.emit('drained', this.getStats());
+    }
+
+    this.pump();
+
+    if (this.queue.length === 0 && this.inFlight === 0) {
+      const waiters = this.idleWaiters;
+      this.idleWaiters = [];
+      waiters.forEach(resolve => resolve());
+    }
+  }
+}
@@ -2,11 +2,14 @@ import cron from 'node-cron'
 import { Pool } from 'pg'
 import { Server } from 'socket.io'
 import { AggregationService } from './aggregation-service'
+import { FeaturePipeline } from './feature-pipeline'
+import { runMigrations } from './db/migrator'
 
 export class MetricsScheduler {
     private pool: Pool;
     private io: Server;
     private aggregationService: AggregationService;
+    private featurePipeline: FeaturePipeline;
     private tasks: Map<string, cron.ScheduledTask> = new Map();
     private isRunning: boolean = false;
 
@@ -14,12 +17,13 @@ export class MetricsScheduler {
         this.pool = pool;
         this.io = io;
         this.aggregationService = new AggregationService(pool, io);
+        this.featurePipeline = new FeaturePipeline(pool);
     }
 
     async initialize() {
         try {
-          // Initialize metrics schema and tables
-          await this.aggregationService.resetDb();
+          // Metrics tables are created by the schema migrations
+          await runMigrations(this.pool);
           console.log('Metrics system initialized successfully');
           return true;
         } catch (error) {
@@ -43,6 +47,23 @@ export class MetricsScheduler {
                 }
             }))
 
+            // Often enough that the 5 minute engagement horizon is snapshotted close to on time
+            this.tasks.set('features', cron.schedule('*/5 * * * *', async () => {
+                try {
+                    await this.featurePipeline.run()
+                } catch (error) {
+                    console.error('Error in feature pipeline job:', error)
+                }
+            }))
+
+            this.tasks.set('trending', cron.schedule('*/5 * * * *', async () => {
+                try {
+                    await this.aggregationService.computeTrendingPosts()
+                } catch (error) {
+                    console.error('Error in trending posts job:', error)
+                }
+            }))
+
             await this.runInitialComputations()
 
             this.isRunning = true
@@ -71,7 +92,8 @@ export class MetricsScheduler {
           
           // Run in parallel for efficiency
           await Promise.all([
-            this.aggregationService.computeShortTermMetrics()
+            this.aggregationService.computeShortTermMetrics(),
+            this.aggregationService.computeTrendingPosts()
           ]);
           
           console.log('Initial metric computations completed');
@@ -0,0 +1,115 @@
+/**
+ * What a post embeds, flattened into the columns stored on posts
+ */
+export interface PostEmbeds {
+  // Short embed kind: images, external, record, recordWithMedia or video
+  embedType: string | null;
+  imageCount: number;
+  // Images with non-empty alt text
+  imageAltCount: number;
+  // The link card URL, or the first link facet when there is no card
+  externalUrl: string | null;
+  externalDomain: string | null;
+  externalTitle: string | null;
+  // Distinct URLs across the link card and link facets
+  linkCount: number;
+  quoteUri: string | null;
+  hasVideo: boolean;
+  videoAlt: string | null;
+}
+
+const EMBED_PREFIX = 'app.bsky.embed.';
+
+/**
+ * Classify a post record's embed and link facets
+ *
+ * Quotes (app.bsky.embed.record) and the media half of recordWithMedia are
+ * unwrapped, so a quote with images counts both the quote and the images.
+ *
+ * @param record The app.bsky.feed.post record
+ */
+export function extractEmbeds(record: any): PostEmbeds {
+  const embeds: PostEmbeds = {
+    embedType: null,
+    imageCount: 0,
+    imageAltCount: 0,
+    externalUrl: null,
+    externalDomain: null,
+    externalTitle: null,
+    linkCount: 0,
+    quoteUri: null,
+    hasVideo: false,
+    videoAlt: null
+  };
+
+  const embed = record?.embed;
+  if (embed && typeof embed.$type === 'string') {
+    embeds.embedType = embed.$type.startsWith(EMBED_PREFIX)
+      ? embed.$type.slice(EMBED_PREFIX.length)
+      : embed.$type;
+
+    if (embed.$type === 'app.bsky.embed.recordWithMedia') {
+      // The quoted record is nested one level deeper here
+      embeds.quoteUri = embed.record?.record?.uri || null;
+      applyMedia(embeds, embed.media);
+    } else if (embed.$type === 'app.bsky.embed.record') {
+      embeds.quoteUri = embed.record?.uri || null;
+    } else {
+      applyMedia(embeds, embed);
+    }
+  }
+
+  const urls = new Set<string>();
+  if (embeds.externalUrl) urls.add(embeds.externalUrl);
+
+  for (const facet of Array.isArray(record?.facets) ? record.facets : []) {
+    for (const feature of Array.isArray(facet?.features) ? facet.features : []) {
+      if (feature?.$type === 'app.bsky.richtext.facet#link' && typeof feature.uri === 'string') {
+        urls.add(feature.uri);
+      }
+    }
+  }
+
+  embeds.linkCount = urls.size;
+
+  if (!embeds.externalUrl && urls.size > 0) {
+    embeds.externalUrl = urls.values().next().value!;
+  }
+  embeds.externalDomain = embeds.externalUrl ? domainOf(embeds.externalUrl) : null;
+
+  return embeds;
+}
+
+function applyMedia(embeds: PostEmbeds, media: any): void {
+  if (!media) return;
+
+  switch (media.$type) {
+    case 'app.bsky.embed.images': {
+      const images = Array.isArray(media.images) ? media.images : [];
+      embeds.imageCount = images.length;
+      embeds.imageAltCount = images.filter((image: any) => typeof image?.alt === 'string' && image.alt.trim()).length;
+      break;
+    }
+    case 'app.bsky.embed.external':
+      embeds.externalUrl = typeof media.external?.uri === 'string' ? media.external.uri : null;
+      embeds.externalTitle = media.external?.title || null;
+      break;
+    case 'app.bsky.embed.video':
+      embeds.hasVideo = true;
+      embeds.videoAlt = typeof media.alt === 'string' && media.alt.trim() ? media.alt : null;
+      break;
+  }
+}
+
+/**
+ * Hostname without a leading www., or null for anything that isn't an http(s) URL
+ */
+function domainOf(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+    return parsed.hostname.toLowerCase().replace(/^www\./, '');
+  } catch (err) {
+    return null;
+  }
+}
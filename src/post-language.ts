@@ -0,0 +1,103 @@
+import { detectAll } from 'tinyld';
+
+/**
+ * The languages stored for a post
+ */
+export interface PostLanguage {
+  // Primary language subtag, e.g. 'en' for 'en-US', or 'unknown'
+  language: string;
+  // Every declared tag, or the detected language
+  languages: string[];
+  source: 'declared' | 'detected' | 'unknown';
+  // Detector confidence between 0 and 1; null for declared languages
+  confidence: number | null;
+}
+
+/**
+ * Options for the n-gram fallback
+ */
+export interface LanguageDetectionOptions {
+  // Below this confidence the post is stored as 'unknown'
+  minConfidence?: number;
+  // Texts shorter than this (after removing links and mentions) are too short to guess
+  minTextLength?: number;
+}
+
+// Lexicon allows up to 3 langs per post
+const MAX_DECLARED_LANGUAGES = 3;
+const LANGUAGE_TAG = /^[a-z]{2,3}(-[a-z0-9]{1,8})*$/i;
+
+/**
+ * Work out a post's languages: the author's declared record.langs when
+ * present, otherwise the bundled offline n-gram identifier (tinyld)
+ *
+ * @param record The app.bsky.feed.post record
+ * @param options Thresholds for the detection fallback
+ */
+export function resolvePostLanguage(record: any, options: LanguageDetectionOptions = {}): PostLanguage {
+  const declared = normalizeDeclared(record?.langs);
+  if (declared.length > 0) {
+    return {
+      language: declared[0].split('-')[0],
+      languages: declared,
+      source: 'declared',
+      confidence: null
+    };
+  }
+
+  const detected = detectLanguage(record?.text, options);
+  if (!detected) {
+    return { language: 'unknown', languages: [], source: 'unknown', confidence: null };
+  }
+
+  return {
+    language: detected.language,
+    languages: [detected.language],
+    source: 'detected',
+    confidence: detected.confidence
+  };
+}
+
+/**
+ * Identify the language of a text with the n-gram model
+ *
+ * @returns The best guess and its confidence, or null when the text is too short or ambiguous
+ */
+export function detectLanguage(text: string | null | undefined, options: LanguageDetectionOptions = {}): { language: string, confidence: number } | null {
+  const minConfidence = options.minConfidence ?? 0.3;
+  const minTextLength = options.minTextLength ?? 10;
+
+  if (!text) return null;
+
+  // Links, mentions and hashtags say nothing about the language
+  const cleaned = text
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[@#][\w.:-]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (cleaned.length < minTextLength) return null;
+
+  const [best] = detectAll(cleaned);
+  if (!best || best.accuracy < minConfidence) return null;
+
+  return { language: best.lang, confidence: best.accuracy };
+}
+
+function normalizeDeclared(langs: any): string[] {
+  if (!Array.isArray(langs)) return [];
+
+  const tags = langs
+    .filter((tag: any) => typeof tag === 'string' && LANGUAGE_TAG.test(tag.trim()))
+    .map((tag: string) => {
+      // Canonical BCP 47 casing so en-us and en-US count once: pt-BR, zh-Hant
+      const [primary, ...rest] = tag.trim().split('-');
+      return [primary.toLowerCase(), ...rest.map(subtag =>
+        subtag.length === 2 ? subtag.toUpperCase()
+          : subtag.length === 4 ? subtag[0].toUpperCase() + subtag.slice(1).toLowerCase()
+          : subtag.toLowerCase()
+      )].join('-');
+    });
+
+  return Array.from(new Set(tags)).slice(0, MAX_DECLARED_LANGUAGES);
+}
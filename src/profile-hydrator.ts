@@ -0,0 +1,370 @@
+import { Pool } from 'pg';
+import events from 'events';
+import { AtpAgent } from '@atproto/api';
+
+/**
+ * Configuration for the ProfileHydrator
+ */
+export interface ProfileHydratorConfig {
+  // Queried directly when no credentials are given
+  appViewUrl?: string;
+  // With credentials, requests go through the account's PDS instead
+  bskyService?: string;
+  bskyHandle?: string;
+  bskyPassword?: string;
+  // getProfiles accepts at most 25 actors per request
+  batchSize?: number;
+  flushIntervalMs?: number;
+  // DIDs beyond this are left for the stale refresh to pick up
+  maxQueueSize?: number;
+  // Re-fetch profiles older than this, to keep follower/following/post counts current
+  staleAfterMs?: number;
+  refreshIntervalMs?: number;
+  refreshBatchSize?: number;
+  // Pause once the AppView reports this few requests left in the window
+  rateLimitReserve?: number;
+  // Pause after a failed request when the AppView gives no reset time, or after a failed store
+  retryDelayMs?: number;
+  // DIDs already queued or hydrated during this run, to skip re-queuing them
+  seenCacheSize?: number;
+}
+
+/**
+ * Hydration counters
+ */
+export interface ProfileHydratorStats {
+  queued: number;
+  requests: number;
+  hydrated: number;
+  // Requested DIDs the AppView returned no profile for
+  missing: number;
+  rateLimited: number;
+  failedRequests: number;
+  // Batches that were fetched but couldn't be stored
+  failedStores: number;
+  pausedUntil: string | null;
+}
+
+// AppViews render unverifiable handles as this placeholder
+const INVALID_HANDLE = 'handle.invalid';
+
+/**
+ * ProfileHydrator fetches profiles for DIDs seen in the stream from the
+ * AppView in the background, so ingestion never waits on the API.
+ *
+ * DIDs are queued as they're seen and fetched in getProfiles batches.
+ * The AppView's ratelimit-remaining and ratelimit-reset headers pause
+ * fetching before the limit is hit, and a periodic refresh re-queues users
+ * that were never hydrated or whose counts have gone stale.
+ *
+ * Handles aren't written here; a 'handle-changed' event is emitted when the
+ * AppView reports a different handle than the stored one, so it can be verified.
+ */
+export class ProfileHydrator extends events.EventEmitter {
+  private pgPool: Pool;
+  private config: Required<Omit<ProfileHydratorConfig, 'bskyHandle' | 'bskyPassword'>> & ProfileHydratorConfig;
+  private agent: AtpAgent;
+  private queue: Set<string> = new Set();
+  private seen: Map<string, true> = new Map();
+  private pausedUntil: number = 0;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private hydrating: Promise<void> | null = null;
+  private stats = {
+    requests: 0,
+    hydrated: 0,
+    missing: 0,
+    rateLimited: 0,
+    failedRequests: 0,
+    failedStores: 0
+  };
+
+  constructor(pgPool: Pool, config: ProfileHydratorConfig = {}) {
+    super();
+
+    this.pgPool = pgPool;
+    this.config = {
+      appViewUrl: config.appViewUrl || 'https://public.api.bsky.app',
+      bskyService: config.bskyService || 'https://bsky.social',
+      bskyHandle: config.bskyHandle,
+      bskyPassword: config.bskyPassword,
+      batchSize: Math.min(config.batchSize || 25, 25),
+      flushIntervalMs: config.flushIntervalMs || 1000,
+      maxQueueSize: config.maxQueueSize || 50_000,
+      staleAfterMs: config.staleAfterMs || 24 * 60 * 60 * 1000,
+      refreshIntervalMs: config.refreshIntervalMs || 10 * 60 * 1000,
+      refreshBatchSize: config.refreshBatchSize || 1000,
+      rateLimitReserve: config.rateLimitReserve ?? 10,
+      retryDelayMs: config.retryDelayMs || 30 * 1000,
+      seenCacheSize: config.seenCacheSize || 200_000
+    };
+
+    const withCredentials = this.config.bskyHandle && this.config.bskyPassword;
+    this.agent = new AtpAgent({
+      service: withCredentials ? this.config.bskyService : this.config.appViewUrl
+    });
+  }
+
+  /**
+   * Login to Bluesky if credentials were provided
+   */
+  async init(): Promise<void> {
+    if (!this.config.bskyHandle || !this.config.bskyPassword) return;
+
+    try {
+      await this.agent.login({
+        identifier: this.config.bskyHandle,
+        password: this.config.bskyPassword
+      });
+      console.log(`Logged in as ${this.config.bskyHandle}`);
+    } catch (err) {
+      console.error('Failed to login to Bluesky:', err);
+      // Continue without login - hydration requests will be unauthenticated
+    }
+  }
+
+  /**
+   * Start fetching queued profiles and refreshing stale ones
+   */
+  start(): void {
+    this.flushTimer = setInterval(() => {
+      this.hydrate().catch(err => console.error('Error hydrating profiles:', err));
+    }, this.config.flushIntervalMs);
+
+    this.refreshTimer = setInterval(() => {
+      this.refreshStale().catch(err => console.error('Error queuing stale profiles:', err));
+    }, this.config.refreshIntervalMs);
+  }
+
+  /**
+   * Stop fetching, waiting for a running batch
+   * Anything still queued is picked up by the stale refresh after a restart
+   */
+  async stop(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    if (this.hydrating) {
+      await this.hydrating.catch(() => undefined);
+    }
+  }
+
+  /**
+   * Queue a DID for hydration
+   *
+   * @param did The user's DID
+   * @param force Queue it even if it was already hydrated during this run, e.g. after a profile update
+   */
+  enqueue(did: string, force: boolean = false): void {
+    if (!force && this.seen.has(did)) return;
+    if (this.queue.size >= this.config.maxQueueSize) return;
+
+    this.queue.add(did);
+    this.remember(did);
+  }
+
+  /**
+   * Queue users that were never hydrated or were hydrated longer ago than staleAfterMs
+   *
+   * @returns The number of DIDs queued
+   */
+  async refreshStale(): Promise<number> {
+    const room = Math.min(this.config.refreshBatchSize, this.config.maxQueueSize - this.queue.size);
+    if (room <= 0) return 0;
+
+    const result = await this.pgPool.query(`
+      SELECT did FROM users
+      WHERE hydrated_at IS NULL
+         OR hydrated_at < NOW() - $1 * INTERVAL '1 millisecond'
+      ORDER BY hydrated_at NULLS FIRST
+      LIMIT $2
+    `, [this.config.staleAfterMs, room]);
+
+    for (const row of result.rows) {
+      this.enqueue(row.did, true);
+    }
+    return result.rows.length;
+  }
+
+  /**
+   * Fetch queued profiles in batches until the queue is empty or a rate limit pauses fetching
+   * Concurrent calls share one run
+   */
+  hydrate(): Promise<void> {
+    if (!this.hydrating) {
+      this.hydrating = this.runHydrate().finally(() => { this.hydrating = null; });
+    }
+    return this.hydrating;
+  }
+
+  /**
+   * Get hydration counters
+   */
+  getStats(): ProfileHydratorStats {
+    return {
+      ...this.stats,
+      queued: this.queue.size,
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : null
+    };
+  }
+
+  private async runHydrate(): Promise<void> {
+    while (this.queue.size > 0 && Date.now() >= this.pausedUntil) {
+      const dids = Array.from(this.queue).slice(0, this.config.batchSize);
+      dids.forEach(did => this.queue.delete(did));
+
+      const profiles = await this.fetchProfiles(dids);
+      if (!profiles) continue;
+
+      try {
+        await this.storeProfiles(dids, profiles);
+      } catch (err) {
+        // Database trouble: back off and keep the batch, like a failed request
+        this.stats.failedStores++;
+        this.pausedUntil = Date.now() + this.config.retryDelayMs;
+        dids.forEach(did => this.queue.add(did));
+      }
+    }
+  }
+
+  /**
+   * @returns The profiles the AppView returned, or null if the request failed
+   */
+  private async fetchProfiles(dids: string[]): Promise<any[] | null> {
+    this.stats.requests++;
+
+    try {
+      const response = await this.agent.api.app.bsky.actor.getProfiles({ actors: dids });
+      this.applyRateLimit(response.headers);
+      return response.data.profiles;
+    } catch (err: any) {
+      const status = err?.status;
+
+      if (status === 429) {
+        this.stats.rateLimited++;
+        this.pauseUntilReset(err.headers);
+        // Nothing was fetched, so try these again once the window resets
+        dids.forEach(did => this.queue.add(did));
+        console.warn(`AppView rate limit hit, pausing profile hydration until ${new Date(this.pausedUntil).toISOString()}`);
+        return null;
+      }
+
+      this.stats.failedRequests++;
+      if (status === 1 || status >= 500) {
+        // Network or AppView trouble: back off and keep the batch
+        this.pausedUntil = Date.now() + this.config.retryDelayMs;
+        dids.forEach(did => this.queue.add(did));
+      }
+      console.error(`Error fetching ${dids.length} profiles:`, err);
+      return null;
+    }
+  }
+
+  private async storeProfiles(requested: string[], profiles: any[]): Promise<void> {
+    const found = new Set(profiles.map(profile => profile.did));
+    const missing = requested.filter(did => !found.has(did));
+    const handleOf = (profile: any) =>
+      profile.handle && profile.handle !== INVALID_HANDLE ? profile.handle : null;
+
+    let changedHandles: { did: string, handle: string | null }[] = [];
+    const client = await this.pgPool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      if (profiles.length > 0) {
+        const dids = profiles.map(profile => profile.did);
+
+        const changed = await client.query(`
+          SELECT p.did, p.handle
+          FROM unnest($1::text[], $2::text[]) AS p(did, handle)
+          LEFT JOIN users u ON u.did = p.did
+          WHERE u.handle IS DISTINCT FROM p.handle
+        `, [dids, profiles.map(handleOf)]);
+        changedHandles = changed.rows;
+
+        await client.query(`
+          INSERT INTO users (
+            did, display_name, description, avatar_url,
+            follower_count, following_count, post_count,
+            first_seen_at, last_updated_at, hydrated_at, is_stub
+          )
+          SELECT p.*, NOW(), NOW(), NOW(), false
+          FROM unnest(
+            $1::text[], $2::text[], $3::text[], $4::text[],
+            $5::int[], $6::int[], $7::int[]
+          ) AS p(did, display_name, description, avatar_url, follower_count, following_count, post_count)
+          ON CONFLICT (did) DO UPDATE SET
+            display_name = EXCLUDED.display_name,
+            description = EXCLUDED.description,
+            avatar_url = EXCLUDED.avatar_url,
+            follower_count = EXCLUDED.follower_count,
+            following_count = EXCLUDED.following_count,
+            post_count = EXCLUDED.post_count,
+            last_updated_at = NOW(),
+            hydrated_at = NOW(),
+            is_stub = false
+        `, [
+          dids,
+          profiles.map(profile => profile.displayName || ''),
+          profiles.map(profile => profile.description || ''),
+          profiles.map(profile => profile.avatar || ''),
+          profiles.map(profile => profile.followersCount ?? null),
+          profiles.map(profile => profile.followsCount ?? null),
+          profiles.map(profile => profile.postsCount ?? null)
+        ]);
+      }
+
+      // Deleted, deactivated or unknown accounts: don't ask again until they go stale
+      if (missing.length > 0) {
+        await client.query(`
+          UPDATE users SET hydrated_at = NOW() WHERE did = ANY($1)
+        `, [missing]);
+      }
+
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK');
+      console.error('Error storing hydrated profiles:', err);
+      throw err;
+    } finally {
+      client.release();
+    }
+
+    this.stats.hydrated += profiles.length;
+    this.stats.missing += missing.length;
+    this.emit('hydrated', { hydrated: profiles.length, missing: missing.length });
+    for (const change of changedHandles) {
+      this.emit('handle-changed', change);
+    }
+  }
+
+  private applyRateLimit(headers: Record<string, string> | undefined): void {
+    const remaining = parseInt(headers?.['ratelimit-remaining'] ?? '');
+    if (!isNaN(remaining) && remaining <= this.config.rateLimitReserve) {
+      this.pauseUntilReset(headers);
+    }
+  }
+
+  private pauseUntilReset(headers: Record<string, string> | undefined): void {
+    // ratelimit-reset is the end of the window in epoch seconds
+    const reset = parseInt(headers?.['ratelimit-reset'] ?? '');
+    this.pausedUntil = !isNaN(reset)
+      ? reset * 1000
+      : Date.now() + this.config.retryDelayMs;
+  }
+
+  private remember(did: string): void {
+    this.seen.delete(did);
+    this.seen.set(did, true);
+
+    if (this.seen.size > this.config.seenCacheSize) {
+      this.seen.delete(this.seen.keys().next().value!);
+    }
+  }
+}
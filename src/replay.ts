@@ -0,0 +1,91 @@
+import dotenv from 'dotenv';
+import { Pool } from 'pg';
+import { JetstreamProcessor } from './jetstream-processor';
+import { MessageQueue } from './message-queue';
+import { EventReplay } from './event-replay';
+import { DeadLetterQueue } from './dead-letter-queue';
+import { runMigrations } from './db/migrator';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Replay archived Jetstream events through the processor, fully offline:
+ *   npm run replay -- --dir ./archive [--from <time_us>] [--to <time_us>] [--pace realtime] [--speed 10]
+ */
+const parseArgs = (argv: string[]) => {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      args[argv[i].slice(2)] = argv[i + 1];
+      i++;
+    }
+  }
+  return args;
+};
+
+const run = async () => {
+  const args = parseArgs(process.argv.slice(2));
+  const directory = args.dir || process.env.ARCHIVE_DIR;
+  if (!directory) {
+    console.error('Missing --dir (or ARCHIVE_DIR)');
+    process.exit(1);
+  }
+
+  const pgPool = new Pool({
+    host: process.env.PG_HOST || 'localhost',
+    port: parseInt(process.env.PG_PORT || '5432'),
+    database: process.env.PG_DATABASE || 'bluesky_collector',
+    user: process.env.PG_USER || 'postgres',
+    password: process.env.PG_PASSWORD || '',
+    ssl: process.env.PG_SSL === 'true',
+    max: parseInt(process.env.PG_MAX_CONNECTIONS || '20')
+  });
+
+  try {
+    await runMigrations(pgPool);
+
+    // Replays must not depend on the network
+    const processor = new JetstreamProcessor(pgPool, {
+      offline: true,
+      batchSize: process.env.BATCH_SIZE ? parseInt(process.env.BATCH_SIZE) : undefined,
+      batchFlushIntervalMs: process.env.BATCH_FLUSH_INTERVAL ? parseInt(process.env.BATCH_FLUSH_INTERVAL) : undefined
+    });
+    await processor.start();
+
+    // Record failures for later retry, but don't retry while replaying
+    const deadLetters = new DeadLetterQueue(pgPool, processor, { retryIntervalMs: 0 });
+    deadLetters.start();
+
+    const queue = new MessageQueue(async (message) => {
+      await processor.processMessage(message);
+    }, {
+      maxSize: process.env.QUEUE_MAX_SIZE ? parseInt(process.env.QUEUE_MAX_SIZE) : undefined,
+      concurrency: process.env.QUEUE_CONCURRENCY ? parseInt(process.env.QUEUE_CONCURRENCY) : undefined
+    });
+
+    const replay = new EventReplay({
+      directory,
+      fromTimeUs: args.from ? parseInt(args.from) : undefined,
+      toTimeUs: args.to ? parseInt(args.to) : undefined,
+      pace: args.pace === 'realtime' ? 'realtime' : 'fast',
+      speed: args.speed ? parseFloat(args.speed) : undefined
+    });
+
+    process.on('SIGINT', () => {
+      console.log('Received SIGINT. Stopping replay...');
+      replay.stop();
+    });
+
+    await replay.run(queue);
+    await deadLetters.stop();
+    await processor.stop();
+  } catch (err) {
+    console.error('Replay failed:', err);
+    process.exitCode = 1;
+  } finally {
+    await pgPool.end();
+  }
+};
+
+run();
@@ -0,0 +1,143 @@
+import http from 'http';
+import events from 'events';
+import { AddressInfo } from 'net';
+
+/**
+ * Configuration for the MockAppView
+ */
+export interface MockAppViewConfig {
+  port?: number;
+  // app.bsky.actor.defs#profileViewDetailed objects, keyed by DID
+  profiles?: Record<string, any>;
+  // Requests allowed per window, reported through ratelimit-* headers like the real AppView
+  rateLimit?: { limit: number, windowMs: number };
+}
+
+/**
+ * MockAppView is a local stand-in for the Bluesky AppView's
+ * app.bsky.actor.getProfiles endpoint, so profile hydration can be
+ * exercised offline. DIDs without a profile are left out of responses,
+ * the way deleted or unknown accounts are.
+ */
+export class MockAppView extends events.EventEmitter {
+  private config: MockAppViewConfig;
+  private server: http.Server | null = null;
+  private profiles: Map<string, any>;
+  private requests: string[][] = [];
+  private windowStart: number = 0;
+  private windowRequests: number = 0;
+  private rejected: number = 0;
+
+  constructor(config: MockAppViewConfig = {}) {
+    super();
+    this.config = config;
+    this.profiles = new Map(Object.entries(config.profiles || {}));
+  }
+
+  /**
+   * Start listening
+   *
+   * @returns The base URL to use as the AppView service
+   */
+  async start(): Promise<string> {
+    this.server = http.createServer((req, res) => this.handleRequest(req, res));
+    this.server.listen(this.config.port || 0, '127.0.0.1');
+    await events.once(this.server, 'listening');
+
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    if (!this.server) return;
+
+    this.server.closeAllConnections();
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  /**
+   * Add or replace a profile, e.g. to change counts between hydrations
+   */
+  setProfile(profile: any): void {
+    this.profiles.set(profile.did, profile);
+  }
+
+  /**
+   * The actors of each getProfiles request served so far, in order
+   */
+  getRequests(): string[][] {
+    return this.requests.map(actors => [...actors]);
+  }
+
+  /**
+   * How many requests were turned away with a 429
+   */
+  getRejectedCount(): number {
+    return this.rejected;
+  }
+
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (url.pathname !== '/xrpc/app.bsky.actor.getProfiles') {
+      this.sendJson(res, 404, { error: 'MethodNotImplemented', message: 'Method Not Implemented' });
+      return;
+    }
+
+    const headers = this.takeRateLimit();
+    if (!headers) {
+      this.rejected++;
+      this.sendJson(res, 429, { error: 'RateLimitExceeded', message: 'Rate Limit Exceeded' }, this.rateLimitHeaders(0));
+      return;
+    }
+
+    const actors = url.searchParams.getAll('actors');
+    this.requests.push(actors);
+    this.emit('request', actors);
+
+    const profiles = actors
+      .map(actor => this.profiles.get(actor))
+      .filter(profile => profile !== undefined);
+
+    this.sendJson(res, 200, { profiles }, headers);
+  }
+
+  /**
+   * Count a request against the current window
+   *
+   * @returns Headers to send, or null if the request is over the limit
+   */
+  private takeRateLimit(): Record<string, string> | null {
+    const rateLimit = this.config.rateLimit;
+    if (!rateLimit) return {};
+
+    const now = Date.now();
+    if (now - this.windowStart >= rateLimit.windowMs) {
+      this.windowStart = now;
+      this.windowRequests = 0;
+    }
+
+    if (this.windowRequests >= rateLimit.limit) return null;
+    this.windowRequests++;
+
+    return this.rateLimitHeaders(rateLimit.limit - this.windowRequests);
+  }
+
+  private rateLimitHeaders(remaining: number): Record<string, string> {
+    const rateLimit = this.config.rateLimit!;
+    return {
+      'ratelimit-limit': String(rateLimit.limit),
+      'ratelimit-remaining': String(remaining),
+      // Epoch seconds, rounded up so clients never resume early
+      'ratelimit-reset': String(Math.ceil((this.windowStart + rateLimit.windowMs) / 1000))
+    };
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: any, headers: Record<string, string> = {}) {
+    res.writeHead(status, { 'content-type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,233 @@
+import fs from 'fs';
+import events from 'events';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { createCCtx, freeCCtx, compressUsingDict } from '@bokuweb/zstd-wasm';
+import { initZstd } from '../zstd-decoder';
+
+/**
+ * One step of a scripted session
+ * - event: send a Jetstream event (subject to the connection's filters and cursor)
+ * - malformed: send a raw frame as-is, e.g. invalid JSON
+ * - disconnect: drop the connection (fires once, so the reconnect continues the script)
+ * - delayMs: wait before the next step
+ */
+export type MockScriptStep =
+  | { event: any }
+  | { malformed: string }
+  | { disconnect: true }
+  | { delayMs: number };
+
+/**
+ * Configuration for the MockJetstreamServer
+ */
+export interface MockJetstreamServerConfig {
+  port?: number;
+  script?: MockScriptStep[];
+  // Dictionary used for compress=true; any bytes work as long as the client uses the same file
+  zstdDictionary?: Buffer;
+}
+
+/**
+ * Query parameters a client connected with, for assertions
+ */
+export interface MockConnectionInfo {
+  wantedCollections: string[];
+  wantedDids: string[];
+  cursor: number | null;
+  compress: boolean;
+  requireHello: boolean;
+  maxMessageSizeBytes: number | null;
+}
+
+interface ConnectionState extends MockConnectionInfo {
+  ready: boolean;
+}
+
+/**
+ * MockJetstreamServer is a local stand-in for a Jetstream instance. It honors
+ * the same query parameters JetstreamCollector.buildUrl() sends, handles
+ * options_update messages, and plays back a script of events, malformed
+ * frames and disconnects so the pipeline can be exercised offline.
+ */
+export class MockJetstreamServer extends events.EventEmitter {
+  private config: MockJetstreamServerConfig;
+  private wss: WebSocketServer | null = null;
+  private firedDisconnects: Set<number> = new Set();
+  private connections: MockConnectionInfo[] = [];
+  private cctx: number | null = null;
+
+  constructor(config: MockJetstreamServerConfig = {}) {
+    super();
+    this.config = config;
+  }
+
+  /**
+   * Load an NDJSON fixture file as a script of events
+   *
+   * @param filePath Path to a file with one Jetstream event per line
+   */
+  static loadFixture(filePath: string): MockScriptStep[] {
+    return fs.readFileSync(filePath, 'utf8')
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => ({ event: JSON.parse(line) }));
+  }
+
+  /**
+   * Start listening
+   *
+   * @returns The port the server is listening on
+   */
+  async start(): Promise<number> {
+    if (this.config.zstdDictionary) {
+      await initZstd();
+      this.cctx = createCCtx();
+    }
+
+    this.wss = new WebSocketServer({ port: this.config.port || 0 });
+    this.wss.on('connection', (socket, req) => this.handleConnection(socket, req.url || '/'));
+    await events.once(this.wss, 'listening');
+
+    return (this.wss.address() as AddressInfo).port;
+  }
+
+  /**
+   * Close all connections and stop listening
+   */
+  async stop(): Promise<void> {
+    if (!this.wss) return;
+
+    for (const client of this.wss.clients) {
+      client.terminate();
+    }
+    await new Promise<void>(resolve => this.wss!.close(() => resolve()));
+    this.wss = null;
+
+    if (this.cctx !== null) {
+      freeCCtx(this.cctx);
+      this.cctx = null;
+    }
+  }
+
+  /**
+   * Connections seen so far, in order
+   */
+  getConnections(): MockConnectionInfo[] {
+    return [...this.connections];
+  }
+
+  private handleConnection(socket: WebSocket, rawUrl: string) {
+    const url = new URL(rawUrl, 'ws://localhost');
+    const params = url.searchParams;
+
+    const state: ConnectionState = {
+      wantedCollections: params.getAll('wantedCollections'),
+      wantedDids: params.getAll('wantedDids'),
+      cursor: params.has('cursor') ? parseInt(params.get('cursor')!) : null,
+      compress: params.get('compress') === 'true',
+      requireHello: params.get('requireHello') === 'true',
+      maxMessageSizeBytes: params.has('maxMessageSizeBytes') ? parseInt(params.get('maxMessageSizeBytes')!) : null,
+      ready: params.get('requireHello') !== 'true'
+    };
+
+    const { ready, ...info } = state;
+    this.connections.push(info);
+    this.emit('connection', info);
+
+    socket.on('message', data => {
+      try {
+        const message = JSON.parse(data.toString());
+        if (message.type === 'options_update') {
+          const payload = message.payload || {};
+          state.wantedCollections = payload.wantedCollections || [];
+          state.wantedDids = payload.wantedDids || [];
+          state.maxMessageSizeBytes = payload.maxMessageSizeBytes || null;
+          state.ready = true;
+          this.emit('options-update', payload);
+        }
+      } catch (err) {
+        // Ignore anything that isn't a valid control message, like Jetstream does
+      }
+    });
+
+    this.play(socket, state).catch(err => this.emit('error', err));
+  }
+
+  private async play(socket: WebSocket, state: ConnectionState) {
+    // With requireHello, nothing is sent until the client's first options_update
+    while (!state.ready) {
+      if (socket.readyState !== WebSocket.OPEN) return;
+      await sleep(10);
+    }
+
+    const script = this.config.script || [];
+
+    for (let i = 0; i < script.length; i++) {
+      if (socket.readyState !== WebSocket.OPEN) return;
+      const step = script[i];
+
+      if ('delayMs' in step) {
+        await sleep(step.delayMs);
+      } else if ('disconnect' in step) {
+        if (this.firedDisconnects.has(i)) continue;
+        this.firedDisconnects.add(i);
+        socket.terminate();
+        return;
+      } else if ('malformed' in step) {
+        socket.send(step.malformed);
+      } else if (this.matches(step.event, state)) {
+        this.send(socket, state, JSON.stringify(step.event));
+        // Yield so the client sees a stream rather than one burst
+        await sleep(0);
+      }
+    }
+  }
+
+  private matches(event: any, state: ConnectionState): boolean {
+    if (state.cursor !== null && event.time_us < state.cursor) return false;
+    if (state.wantedDids.length > 0 && !state.wantedDids.includes(event.did)) return false;
+
+    // Collection filters only apply to commits; identity and account events always pass
+    if (event.kind === 'commit' && state.wantedCollections.length > 0) {
+      const collection = event.commit?.collection || '';
+      return state.wantedCollections.some(wanted =>
+        wanted.endsWith('.*')
+          ? collection.startsWith(wanted.slice(0, -1))
+          : collection === wanted
+      );
+    }
+
+    return true;
+  }
+
+  private send(socket: WebSocket, state: ConnectionState, text: string) {
+    if (state.maxMessageSizeBytes && Buffer.byteLength(text) > state.maxMessageSizeBytes) return;
+
+    if (state.compress && this.config.zstdDictionary && this.cctx !== null) {
+      const frame = compressUsingDict(this.cctx, Buffer.from(text), this.config.zstdDictionary, 3);
+      socket.send(Buffer.from(frame), { binary: true });
+    } else {
+      socket.send(text);
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Standalone mode: serve an NDJSON fixture, e.g. for pointing a local collector at
+//   npm run mock-jetstream -- test/fixtures/jetstream-events.ndjson
+if (require.main === module) {
+  const fixture = process.argv[2];
+  const port = parseInt(process.env.MOCK_JETSTREAM_PORT || '6008');
+  const server = new MockJetstreamServer({
+    port,
+    script: fixture ? MockJetstreamServer.loadFixture(fixture) : [],
+    zstdDictionary: process.env.ZSTD_DICTIONARY_PATH ? fs.readFileSync(process.env.ZSTD_DICTIONARY_PATH) : undefined
+  });
+
+  server.on('connection', info => console.log('Client connected:', info));
+  server.start().then(port => console.log(`Mock Jetstream listening on ws://localhost:${port}/subscribe`));
+}
@@ -0,0 +1,141 @@
+import http from 'http';
+import events from 'events';
+import { AddressInfo } from 'net';
+
+/**
+ * Configuration for the MockPlcDirectory
+ */
+export interface MockPlcDirectoryConfig {
+  port?: number;
+  // DID documents, keyed by DID
+  documents?: Record<string, any>;
+  // What each handle resolves to
+  handles?: Record<string, string>;
+}
+
+/**
+ * MockPlcDirectory is a local stand-in for identity resolution. It serves
+ * DID documents the way plc.directory does (GET /<did>), handle lookups
+ * through com.atproto.identity.resolveHandle, and /.well-known/did.json
+ * for did:web DIDs pointing at its own address, e.g. did:web:127.0.0.1%3A<port>.
+ */
+export class MockPlcDirectory extends events.EventEmitter {
+  private config: MockPlcDirectoryConfig;
+  private server: http.Server | null = null;
+  private documents: Map<string, any>;
+  private handles: Map<string, string>;
+  private retryAfterSeconds: number | null = null;
+  private rejected: number = 0;
+
+  constructor(config: MockPlcDirectoryConfig = {}) {
+    super();
+    this.config = config;
+    this.documents = new Map(Object.entries(config.documents || {}));
+    this.handles = new Map(Object.entries(config.handles || {}));
+  }
+
+  /**
+   * Build a minimal DID document claiming a handle
+   */
+  static didDocument(did: string, handle: string, pdsEndpoint: string = 'https://pds.example.com'): any {
+    return {
+      '@context': ['https://www.w3.org/ns/did/v1'],
+      id: did,
+      alsoKnownAs: [`at://${handle}`],
+      service: [{ id: '#atproto_pds', type: 'AtprotoPersonalDataServer', serviceEndpoint: pdsEndpoint }]
+    };
+  }
+
+  /**
+   * Start listening
+   *
+   * @returns The base URL to use as the PLC directory and handle resolver
+   */
+  async start(): Promise<string> {
+    this.server = http.createServer((req, res) => this.handleRequest(req, res));
+    this.server.listen(this.config.port || 0, '127.0.0.1');
+    await events.once(this.server, 'listening');
+
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    if (!this.server) return;
+
+    this.server.closeAllConnections();
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  /**
+   * Add or replace a DID document
+   */
+  setDocument(document: any): void {
+    this.documents.set(document.id, document);
+  }
+
+  /**
+   * Point a handle at a DID, or stop it resolving with null
+   */
+  setHandle(handle: string, did: string | null): void {
+    if (did) {
+      this.handles.set(handle, did);
+    } else {
+      this.handles.delete(handle);
+    }
+  }
+
+  /**
+   * Turn every request away with a 429 and this Retry-After, or stop with null
+   */
+  setRateLimited(retryAfterSeconds: number | null): void {
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+
+  /**
+   * How many requests were turned away with a 429
+   */
+  getRejectedCount(): number {
+    return this.rejected;
+  }
+
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url || '/', 'http://localhost');
+    this.emit('request', url.pathname);
+
+    if (this.retryAfterSeconds !== null) {
+      this.rejected++;
+      this.sendJson(res, 429, { error: 'RateLimitExceeded', message: 'Rate Limit Exceeded' }, { 'retry-after': String(this.retryAfterSeconds) });
+      return;
+    }
+
+    if (url.pathname === '/xrpc/com.atproto.identity.resolveHandle') {
+      const did = this.handles.get((url.searchParams.get('handle') || '').toLowerCase());
+      if (did) {
+        this.sendJson(res, 200, { did });
+      } else {
+        this.sendJson(res, 400, { error: 'InvalidRequest', message: 'Unable to resolve handle' });
+      }
+      return;
+    }
+
+    const did = url.pathname === '/.well-known/did.json'
+      ? `did:web:${encodeURIComponent(req.headers.host || '')}`
+      : decodeURIComponent(url.pathname.slice(1));
+
+    const document = this.documents.get(did);
+    if (document) {
+      this.sendJson(res, 200, document);
+    } else {
+      this.sendJson(res, 404, { message: `DID not registered: ${did}` });
+    }
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: any, headers: Record<string, string> = {}) {
+    res.writeHead(status, { 'content-type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  }
+}
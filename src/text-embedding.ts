@@ -0,0 +1,98 @@
+/**
+ * Options for the hashed n-gram embedding
+ */
+export interface TextEmbeddingOptions {
+  // Length of the vector; changing it changes every embedding
+  dimensions?: number;
+}
+
+// Character trigrams catch misspellings and inflections, so they count for less than whole words
+const CHAR_NGRAM_WEIGHT = 0.5;
+
+/**
+ * Embed a text as a fixed-length vector using the hashing trick over word
+ * unigrams, word bigrams and character trigrams
+ *
+ * Each n-gram is hashed to a dimension and a sign, weighted by 1 + ln(count),
+ * and the result is L2-normalized so cosine similarity is a dot product.
+ * Runs offline and is deterministic: the same text always gives the same vector.
+ *
+ * @param text The text to embed
+ * @returns The vector, or null when the text has no words
+ */
+export function embedText(text: string | null | undefined, options: TextEmbeddingOptions = {}): number[] | null {
+  const dimensions = options.dimensions || 256;
+  const words = tokenize(text || '');
+  if (words.length === 0) return null;
+
+  const counts = new Map<string, number>();
+  const add = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) || 0) + weight);
+
+  for (let i = 0; i < words.length; i++) {
+    add(`w:${words[i]}`, 1);
+    if (i > 0) add(`b:${words[i - 1]} ${words[i]}`, 1);
+
+    const padded = `#${words[i]}#`;
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      add(`c:${padded.slice(j, j + 3)}`, CHAR_NGRAM_WEIGHT);
+    }
+  }
+
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const [feature, count] of counts) {
+    const hash = fnv1a(feature);
+    // The top bit picks the sign, so collisions tend to cancel out rather than pile up
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[(hash & 0x7fffffff) % dimensions] += sign * (1 + Math.log(count));
+  }
+
+  return normalize(vector);
+}
+
+/**
+ * Average several embeddings into one, re-normalized
+ *
+ * @returns The mean vector, or null when there is nothing to average
+ */
+export function meanEmbedding(vectors: number[][]): number[] | null {
+  if (vectors.length === 0) return null;
+
+  const mean = new Array<number>(vectors[0].length).fill(0);
+  for (const vector of vectors) {
+    for (let i = 0; i < mean.length; i++) {
+      mean[i] += vector[i] / vectors.length;
+    }
+  }
+
+  return normalize(mean);
+}
+
+function tokenize(text: string): string[] {
+  // Links and mentions are mostly unique strings that only add noise
+  return text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/@[\w.:-]+/g, ' ')
+    .split(/[^\p{L}\p{N}#]+/u)
+    .filter(word => word.length > 0 && word !== '#');
+}
+
+/**
+ * 32-bit FNV-1a over UTF-16 code units
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] | null {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  if (length === 0) return null;
+
+  // Six decimals is plenty for similarity and keeps the stored arrays small
+  return vector.map(value => Math.round((value / length) * 1e6) / 1e6);
+}
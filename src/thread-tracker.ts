@@ -0,0 +1,238 @@
+import { Pool } from 'pg';
+import events from 'events';
+
+/**
+ * Configuration for the ThreadTracker
+ */
+export interface ThreadTrackerConfig {
+  // How often to fix up provisional depths and refresh thread_stats
+  refreshIntervalMs?: number;
+  // Recently seen post depths kept in memory, so replies to posts still in
+  // the write buffer don't need a database lookup
+  depthCacheSize?: number;
+  // Each fix-up pass resolves one more generation of replies
+  maxFixupPasses?: number;
+}
+
+/**
+ * A post's depth in its thread: 0 for top-level posts, 1 for direct replies to the root
+ */
+export interface ThreadDepth {
+  depth: number;
+  // false when an ancestor hasn't been seen yet and the depth is a lower bound
+  resolved: boolean;
+}
+
+/**
+ * ThreadTracker computes reply depths from the parent's stored depth and
+ * keeps per-conversation counts in thread_stats.
+ *
+ * A reply whose parent hasn't arrived gets a provisional depth. refresh()
+ * fixes those up once the parent is stored, then recomputes the stats of
+ * every thread that changed since the last refresh.
+ */
+export class ThreadTracker extends events.EventEmitter {
+  private pgPool: Pool;
+  private config: Required<ThreadTrackerConfig>;
+  private depths: Map<string, ThreadDepth> = new Map();
+  private dirtyRoots: Set<string> = new Set();
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private refreshing: Promise<void> | null = null;
+
+  constructor(pgPool: Pool, config: ThreadTrackerConfig = {}) {
+    super();
+
+    this.pgPool = pgPool;
+    this.config = {
+      refreshIntervalMs: config.refreshIntervalMs || 10 * 1000,
+      depthCacheSize: config.depthCacheSize || 100_000,
+      maxFixupPasses: config.maxFixupPasses || 50
+    };
+  }
+
+  /**
+   * Start the periodic refresh
+   */
+  start(): void {
+    this.refreshTimer = setInterval(() => {
+      this.refresh().catch(err => console.error('Error refreshing threads:', err));
+    }, this.config.refreshIntervalMs);
+  }
+
+  /**
+   * Stop the periodic refresh and run a final one
+   * Call after the posts it should see have been written
+   */
+  async stop(): Promise<void> {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+
+    try {
+      await this.refresh();
+    } catch (err) {
+      console.error('Error refreshing threads on shutdown:', err);
+    }
+  }
+
+  /**
+   * Work out the depth of a post
+   *
+   * @param uri The post's URI
+   * @param record The app.bsky.feed.post record
+   */
+  async resolveDepth(uri: string, record: any): Promise<ThreadDepth> {
+    const parentUri = record?.reply?.parent?.uri;
+    const rootUri = record?.reply?.root?.uri;
+
+    let depth: ThreadDepth;
+    if (!parentUri) {
+      depth = { depth: 0, resolved: true };
+    } else if (parentUri === rootUri) {
+      // Known without looking anything up
+      depth = { depth: 1, resolved: true };
+    } else {
+      const parent = await this.lookupDepth(parentUri);
+      depth = parent
+        ? { depth: parent.depth + 1, resolved: parent.resolved }
+        // The parent is a reply itself (it isn't the root), so at least 2
+        : { depth: 2, resolved: false };
+    }
+
+    this.remember(uri, depth);
+    return depth;
+  }
+
+  /**
+   * Mark a thread's stats as out of date
+   *
+   * @param rootUri The URI of the thread's root post
+   */
+  touch(rootUri: string | null | undefined): void {
+    if (rootUri) this.dirtyRoots.add(rootUri);
+  }
+
+  /**
+   * Fix up provisional depths, then recompute stats for changed threads
+   * Concurrent calls share one run
+   */
+  refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.runRefresh().finally(() => { this.refreshing = null; });
+    }
+    return this.refreshing;
+  }
+
+  private async runRefresh(): Promise<void> {
+    const fixed = await this.fixupDepths();
+
+    const roots = Array.from(this.dirtyRoots);
+    this.dirtyRoots.clear();
+    if (roots.length === 0) return;
+
+    try {
+      await this.updateThreadStats(roots);
+    } catch (err) {
+      // Try these again next time
+      roots.forEach(root => this.dirtyRoots.add(root));
+      throw err;
+    }
+
+    this.emit('refreshed', { fixedDepths: fixed, threads: roots.length });
+  }
+
+  /**
+   * Resolve replies whose parent has been stored with a resolved depth,
+   * one generation per pass
+   *
+   * @returns The number of posts whose depth was resolved
+   */
+  private async fixupDepths(): Promise<number> {
+    let fixed = 0;
+
+    for (let pass = 0; pass < this.config.maxFixupPasses; pass++) {
+      const result = await this.pgPool.query(`
+        UPDATE posts child
+        SET thread_depth = parent.thread_depth + 1,
+            thread_depth_resolved = true
+        FROM posts parent
+        WHERE child.reply_to = parent.uri
+          AND NOT child.thread_depth_resolved
+          AND parent.thread_depth_resolved
+        RETURNING child.uri, child.reply_root, child.thread_depth
+      `);
+
+      if (result.rows.length === 0) break;
+      fixed += result.rows.length;
+
+      for (const row of result.rows) {
+        this.remember(row.uri, { depth: row.thread_depth, resolved: true });
+        this.touch(row.reply_root);
+      }
+    }
+
+    if (fixed > 0) {
+      console.log(`Resolved thread depth for ${fixed} replies`);
+    }
+    return fixed;
+  }
+
+  private async updateThreadStats(roots: string[]): Promise<void> {
+    // The root author participates even when the root post itself isn't stored
+    await this.pgPool.query(`
+      INSERT INTO thread_stats (
+        root_uri, reply_count, direct_reply_count, participant_count,
+        max_depth, last_reply_at, updated_at
+      )
+      SELECT
+        roots.root_uri,
+        COUNT(reply.uri),
+        COUNT(reply.uri) FILTER (WHERE reply.thread_depth = 1),
+        (
+          SELECT COUNT(DISTINCT participant)
+          FROM unnest(array_agg(reply.did) || split_part(roots.root_uri, '/', 3)) AS participant
+        ),
+        COALESCE(MAX(reply.thread_depth), 0),
+        MAX(reply.created_at),
+        NOW()
+      FROM unnest($1::text[]) AS roots(root_uri)
+      LEFT JOIN posts reply
+        ON reply.reply_root = roots.root_uri AND reply.deleted_at IS NULL
+      GROUP BY roots.root_uri
+      ON CONFLICT (root_uri) DO UPDATE SET
+        reply_count = EXCLUDED.reply_count,
+        direct_reply_count = EXCLUDED.direct_reply_count,
+        participant_count = EXCLUDED.participant_count,
+        max_depth = EXCLUDED.max_depth,
+        last_reply_at = EXCLUDED.last_reply_at,
+        updated_at = NOW()
+    `, [roots]);
+  }
+
+  private async lookupDepth(uri: string): Promise<ThreadDepth | null> {
+    const cached = this.depths.get(uri);
+    if (cached) return cached;
+
+    const result = await this.pgPool.query(
+      'SELECT thread_depth, thread_depth_resolved FROM posts WHERE uri = $1',
+      [uri]
+    );
+    if (result.rows.length === 0 || result.rows[0].thread_depth === null) return null;
+
+    return {
+      depth: result.rows[0].thread_depth,
+      resolved: result.rows[0].thread_depth_resolved
+    };
+  }
+
+  private remember(uri: string, depth: ThreadDepth): void {
+    // Re-insert so the Map's insertion order doubles as recency
+    this.depths.delete(uri);
+    this.depths.set(uri, depth);
+
+    if (this.depths.size > this.config.depthCacheSize) {
+      this.depths.delete(this.depths.keys().next().value!);
+    }
+  }
+}
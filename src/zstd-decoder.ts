@@ -0,0 +1,66 @@
+import fs from 'fs';
+import { init, createDCtx, freeDCtx, decompressUsingDict } from '@bokuweb/zstd-wasm';
+
+// init() instantiates a fresh WASM module each call, which invalidates
+// contexts created against the previous one, so load it only once
+let initialized: Promise<void> | null = null;
+
+/**
+ * Load the zstd WASM module, once per process
+ */
+export function initZstd(): Promise<void> {
+  if (!initialized) initialized = init();
+  return initialized;
+}
+
+/**
+ * ZstdDecoder decompresses Jetstream's compressed frames, which are zstd
+ * frames encoded against Jetstream's custom dictionary (the `zstd_dictionary`
+ * file published in the Jetstream repository).
+ */
+export class ZstdDecoder {
+  private dictionary: Uint8Array;
+  private dctx: number;
+  private maxFrameSize: number;
+
+  private constructor(dictionary: Uint8Array, maxFrameSize: number) {
+    this.dictionary = dictionary;
+    this.maxFrameSize = maxFrameSize;
+    this.dctx = createDCtx();
+  }
+
+  /**
+   * Load the WASM module and the dictionary
+   *
+   * @param dictionaryPath Path to the Jetstream zstd dictionary file
+   * @param maxFrameSize Output buffer size for frames that don't declare their decompressed size
+   */
+  static async create(dictionaryPath: string, maxFrameSize: number = 1024 * 1024): Promise<ZstdDecoder> {
+    await initZstd();
+
+    const dictionary = await fs.promises.readFile(dictionaryPath);
+    console.log(`Loaded zstd dictionary from ${dictionaryPath} (${dictionary.length} bytes)`);
+
+    return new ZstdDecoder(new Uint8Array(dictionary), maxFrameSize);
+  }
+
+  /**
+   * Decompress a single frame
+   *
+   * @param data The compressed frame
+   * @returns The decompressed bytes
+   */
+  decompress(data: Buffer): Buffer {
+    const output = decompressUsingDict(this.dctx, data, this.dictionary, {
+      defaultHeapSize: this.maxFrameSize
+    });
+    return Buffer.from(output.buffer, output.byteOffset, output.byteLength);
+  }
+
+  /**
+   * Release the WASM decompression context
+   */
+  close(): void {
+    freeDCtx(this.dctx);
+  }
+}
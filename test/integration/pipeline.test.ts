@@ -0,0 +1,998 @@
+import { describe, it, before, after, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import os from 'os';
+import path from 'path';
+import { Pool } from 'pg';
+import { JetstreamCollector, JetstreamConfig, PostgresConfig } from '../../src/jetstream-collector';
+import { JetstreamProcessor } from '../../src/jetstream-processor';
+import { MessageQueue } from '../../src/message-queue';
+import { DeadLetterQueue } from '../../src/dead-letter-queue';
+import { ProfileHydrator } from '../../src/profile-hydrator';
+import { IdentityResolver } from '../../src/identity-resolver';
+import { EngagementEnricher } from '../../src/engagement-enricher';
+import { FeaturePipeline } from '../../src/feature-pipeline';
+import { FeedGenerator } from '../../src/feed-generator';
+import { latestRanker, popularRanker } from '../../src/feed-rankers';
+import { setupFeedRoutes } from '../../src/api/feed-routes';
+import { setupApiRoutes } from '../../src/api/api-routes';
+import { AggregationService } from '../../src/aggregation-service';
+import { Migrator } from '../../src/db/migrator';
+import { migrations } from '../../src/db/migrations';
+import { MockJetstreamServer, MockScriptStep } from '../../src/testing/mock-jetstream-server';
+import { MockAppView } from '../../src/testing/mock-appview';
+import { MockPlcDirectory } from '../../src/testing/mock-plc-directory';
+
+// Runs against a dedicated database that gets wiped before every test.
+// Set PG_TEST_DATABASE (plus the usual PG_* connection variables) to enable.
+const testDatabase = process.env.PG_TEST_DATABASE;
+
+const pgConfig: PostgresConfig = {
+  host: process.env.PG_HOST || 'localhost',
+  port: parseInt(process.env.PG_PORT || '5432'),
+  database: testDatabase || '',
+  user: process.env.PG_USER || 'postgres',
+  password: process.env.PG_PASSWORD || '',
+  max: 4
+};
+
+const fixture = MockJetstreamServer.loadFixture(path.join(__dirname, '../fixtures/jetstream-events.ndjson'));
+
+const profiles = {
+  'did:plc:alice': { did: 'did:plc:alice', handle: 'alice.test', displayName: 'Alice', followersCount: 10, followsCount: 2, postsCount: 5 },
+  'did:plc:bob': { did: 'did:plc:bob', handle: 'bob.test', displayName: 'Bob', followersCount: 3, followsCount: 1, postsCount: 2 }
+};
+
+// Bob's identity event in the fixture moves him to bob.example.com
+const identities = {
+  documents: {
+    'did:plc:alice': MockPlcDirectory.didDocument('did:plc:alice', 'alice.test'),
+    'did:plc:bob': MockPlcDirectory.didDocument('did:plc:bob', 'bob.example.com')
+  },
+  handles: {
+    'alice.test': 'did:plc:alice',
+    'bob.example.com': 'did:plc:bob'
+  }
+};
+
+/**
+ * Stand-in AppView and identity directory URLs
+ */
+interface Services {
+  appView: string;
+  plc: string;
+}
+
+interface Pipeline {
+  collector: JetstreamCollector;
+  processor: JetstreamProcessor;
+  deadLetters: DeadLetterQueue;
+  stop: () => Promise<void>;
+}
+
+/**
+ * Wire collector -> queue -> processor the same way index.ts does
+ */
+async function startPipeline(pool: Pool, config: Omit<JetstreamConfig, 'endpoint'>, port: number, services: Services): Promise<Pipeline> {
+  const processor = new JetstreamProcessor(pool, {
+    batchFlushIntervalMs: 50,
+    appViewUrl: services.appView,
+    plcDirectoryUrl: services.plc,
+    handleResolverUrl: services.plc
+  });
+  const collector = new JetstreamCollector(pgConfig, {
+    endpoint: `ws://127.0.0.1:${port}/subscribe`,
+    cursorCheckpointIntervalMs: 100,
+    ...config
+  }, 50);
+
+  const queue = new MessageQueue(async (message) => {
+    try {
+      await processor.processMessage(message);
+      collector.ack(message);
+    } catch {
+      // Left unacked, as in index.ts
+    }
+  });
+
+  collector.on('message', message => queue.push(message));
+  collector.on('error', () => { /* connection errors are expected in disconnect tests */ });
+
+  // Retries are driven by the tests
+  const deadLetters = new DeadLetterQueue(pool, processor, { retryIntervalMs: 0, baseRetryDelayMs: 1 });
+
+  await processor.start();
+  deadLetters.start();
+  await collector.run();
+
+  return {
+    collector,
+    processor,
+    deadLetters,
+    stop: async () => {
+      collector.disconnect();
+      await queue.drain();
+      await deadLetters.stop();
+      await processor.stop();
+      await collector.stop();
+    }
+  };
+}
+
+async function waitFor(check: () => Promise<boolean>, timeoutMs = 10_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (await check()) return;
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+  throw new Error('Timed out waiting for condition');
+}
+
+async function count(pool: Pool, sql: string): Promise<number> {
+  const result = await pool.query(sql);
+  return parseInt(result.rows[0].count);
+}
+
+describe('Jetstream pipeline against a mock server', { skip: !testDatabase && 'PG_TEST_DATABASE not set' }, () => {
+  let pool: Pool;
+  let server: MockJetstreamServer;
+  let appView: MockAppView;
+  let plcDirectory: MockPlcDirectory;
+  let services: Services;
+  let pipeline: Pipeline | null;
+
+  before(async () => {
+    pool = new Pool(pgConfig);
+    appView = new MockAppView({ profiles });
+    plcDirectory = new MockPlcDirectory(identities);
+    services = { appView: await appView.start(), plc: await plcDirectory.start() };
+  });
+
+  after(async () => {
+    await appView.stop();
+    await plcDirectory.stop();
+    await pool.end();
+  });
+
+  beforeEach(async () => {
+    await new Migrator(pool, migrations).reset();
+    await pool.query(`
+      INSERT INTO users (did, handle) VALUES
+        ('did:plc:alice', 'alice.test'),
+        ('did:plc:bob', 'bob.test')
+    `);
+    pipeline = null;
+  });
+
+  afterEach(async () => {
+    if (pipeline) await pipeline.stop();
+    if (server) await server.stop();
+  });
+
+  const serve = async (script: MockScriptStep[], zstdDictionary?: Buffer) => {
+    server = new MockJetstreamServer({ script, zstdDictionary });
+    return server.start();
+  };
+
+  it('only applies new migrations to a populated database and keeps its data', async () => {
+    await pool.query(`
+      INSERT INTO posts (did, rkey, uri, cid, text, created_at, hour_timestamp, indexed_at) VALUES
+        ('did:plc:alice', 'm1', 'at://did:plc:alice/app.bsky.feed.post/m1', 'cid-m1', 'Written before the upgrade',
+          NOW(), date_trunc('hour', NOW()), NOW())
+    `);
+    await pool.query("INSERT INTO cursor_state (id, cursor_value) VALUES ('main_cursor', 1700000001000000)");
+
+    // A release that adds one migration on top of the current schema
+    const upgrade = [...migrations, {
+      version: migrations.length + 1,
+      name: 'upgrade-test',
+      up: 'ALTER TABLE posts ADD COLUMN upgrade_test TEXT'
+    }];
+    assert.deepEqual(await new Migrator(pool, upgrade).migrate(), [migrations.length + 1]);
+    assert.deepEqual(await new Migrator(pool, upgrade).migrate(), []);
+
+    assert.equal(await count(pool, "SELECT COUNT(*) FROM posts WHERE rkey = 'm1' AND text = 'Written before the upgrade'"), 1);
+    assert.equal(await count(pool, 'SELECT COUNT(*) FROM users'), 2);
+    const saved = await pool.query("SELECT cursor_value FROM cursor_state WHERE id = 'main_cursor'");
+    assert.equal(Number(saved.rows[0].cursor_value), 1700000001000000);
+
+    const versions = await pool.query('SELECT COUNT(*) AS count, COUNT(DISTINCT version) AS distinct_count FROM schema_migrations');
+    assert.deepEqual(versions.rows[0], { count: String(migrations.length + 1), distinct_count: String(migrations.length + 1) });
+  });
+
+  it('stores posts, engagements, follows and deletes from the stream', async () => {
+    const port = await serve(fixture);
+    pipeline = await startPipeline(pool, {}, port, services);
+
+    await waitFor(async () => await count(pool, 'SELECT COUNT(*) FROM posts') === 3 &&
+      await count(pool, 'SELECT COUNT(*) FROM engagements WHERE deleted_at IS NOT NULL') === 1);
+
+    assert.equal(await count(pool, 'SELECT COUNT(*) FROM follows'), 1);
+    assert.equal(await count(pool, "SELECT COUNT(*) FROM engagements WHERE type = 'repost' AND deleted_at IS NULL"), 1);
+
+    // Alice follows bob before reposting his post, three seconds after it was made
+    const repost = await pool.query(`
+      SELECT EXTRACT(EPOCH FROM time_to_engage)::int AS seconds, actor_follows_author, enriched_at IS NOT NULL AS enriched
+      FROM engagements WHERE type = 'repost'
+    `);
+    assert.deepEqual(repost.rows[0], { seconds: 3, actor_follows_author: true, enriched: true });
+
+    const reply = await pool.query("SELECT post_uri, reply_uri FROM engagements WHERE type = 'reply'");
+    assert.deepEqual(reply.rows, [{
+      post_uri: 'at://did:plc:bob/app.bsky.feed.post/p2',
+      reply_uri: 'at://did:plc:alice/app.bsky.feed.post/p3'
+    }]);
+
+    // The new handle is stored once the resolver has verified it
+    await waitFor(async () => await count(pool, "SELECT COUNT(*) FROM users WHERE did = 'did:plc:bob' AND handle = 'bob.example.com'") === 1);
+
+    const linkPost = await pool.query(`
+      SELECT embed_type, external_domain, external_title, has_external_link, language, languages, language_source
+      FROM posts WHERE rkey = 'p2'
+    `);
+    assert.deepEqual(linkPost.rows[0], {
+      embed_type: 'external',
+      external_domain: 'example.com',
+      external_title: 'Example News',
+      has_external_link: true,
+      language: 'en',
+      languages: ['en'],
+      language_source: 'declared'
+    });
+  });
+
+  it('does not count a follow made after the engagement, at ingest or in the catch-up', async () => {
+    const [post, , like] = fixture as { event: any }[];
+    // Bob follows alice a minute after liking her post, but the follow is stored first
+    const follow = {
+      did: 'did:plc:bob',
+      time_us: post.event.time_us + 1,
+      kind: 'commit',
+      commit: {
+        operation: 'create',
+        collection: 'app.bsky.graph.follow',
+        rkey: 'f9',
+        cid: 'cid-f9',
+        record: { $type: 'app.bsky.graph.follow', subject: 'did:plc:alice', createdAt: '2023-11-14T22:14:23.000Z' }
+      }
+    };
+    const port = await serve([post, { event: follow }, { delayMs: 200 }, like]);
+    pipeline = await startPipeline(pool, {}, port, services);
+
+    const likeFollows = async () => {
+      const result = await pool.query("SELECT actor_follows_author, enriched_at IS NOT NULL AS enriched FROM engagements WHERE type = 'like'");
+      return result.rows[0];
+    };
+    await waitFor(async () => await count(pool, "SELECT COUNT(*) FROM engagements WHERE type = 'like'") === 1);
+    assert.deepEqual(await likeFollows(), { actor_follows_author: false, enriched: true });
+
+    await pool.query("UPDATE engagements SET enriched_at = NULL, actor_follows_author = true WHERE type = 'like'");
+    assert.equal(await new EngagementEnricher(pool).catchUp(), 1);
+    assert.deepEqual(await likeFollows(), { actor_follows_author: false, enriched: true });
+  });
+
+  it('sends filters as query parameters and only receives matching events', async () => {
+    const port = await serve(fixture);
+    pipeline = await startPipeline(pool, {
+      wantedCollections: ['app.bsky.feed.post'],
+      wantedDids: ['did:plc:alice']
+    }, port, services);
+
+    await waitFor(async () => await count(pool, 'SELECT COUNT(*) FROM posts WHERE NOT is_stub') === 2);
+
+    const [connection] = server.getConnections();
+    assert.deepEqual(connection.wantedCollections, ['app.bsky.feed.post']);
+    assert.deepEqual(connection.wantedDids, ['did:plc:alice']);
+    assert.equal(await count(pool, "SELECT COUNT(*) FROM posts WHERE did <> 'did:plc:alice' AND NOT is_stub"), 0);
+    assert.equal(await count(pool, "SELECT COUNT(*) FROM engagements WHERE type IN ('like', 'repost')"), 0);
+  });
+
+  it('skips malformed frames and keeps going', async () => {
+    const script: MockScriptStep[] = [
+      fixture[0],
+      { malformed: '{"did": "did:plc:alice", "kind": ' },
+      { malformed: 'not json at all' },
+      fixture[1]
+    ];
+    const port = await serve(script);
+    pipeline = await startPipeline(pool, {}, port, services);
+
+    await waitFor(async () => await count(pool, 'SELECT COUNT(*) FROM posts') === 2);
+  });
+
+  it('reconnects after a disconnect and resumes from the cursor without gaps', async () => {
+    const script: MockScriptStep[] = [
+      ...fixture.slice(0, 3),
+      { delayMs: 200 },
+      { disconnect: true },
+      ...fixture.slice(3)
+    ];
+    const port = await serve(script);
+    pipeline = await startPipeline(pool, {}, port, services);
+
+    await waitFor(async () => await count(pool, 'SELECT COUNT(*) FROM posts') === 3);
+
+    const connections = server.getConnections();
+    assert.ok(connections.length >= 2, 'expected a reconnect');
+    assert.ok(connections[1].cursor !== null, 'expected the reconnect to send a cursor');
+    assert.equal(await count(pool, 'SELECT COUNT(*) FROM follows'), 1);
+  });
+
+  it('stays connected while paused for longer than the ping interval', async () => {
+    const port = await serve([fixture[0], { delayMs: 500 }, fixture[1]]);
+    pipeline = await startPipeline(pool, { pingIntervalMs: 100, stallTimeoutMs: 0 }, port, services);
+    const stalls: any[] = [];
+    pipeline.collector.on('stalled', stall => stalls.push(stall));
+
+    await waitFor(async () => await count(pool, 'SELECT COUNT(*) FROM posts') === 1);
+    pipeline.collector.pause();
+    await new Promise(resolve => setTimeout(resolve, 1000));
+
+    assert.equal(server.getConnections().length, 1);
+    assert.deepEqual(stalls, []);
+    assert.equal(await count(pool, 'SELECT COUNT(*) FROM posts'), 1);
+
+    pipeline.collector.resume();
+    await waitFor(async () => await count(pool, 'SELECT COUNT(*) FROM posts') === 2);
+    assert.equal(server.getConnections().length, 1);
+  });
+
+  it('checkpoints the cursor so a restart resumes after processed events', async () => {
+    const port = await serve(fixture);
+    pipeline = await startPipeline(pool, {}, port, services);
+
+    await waitFor(async () => await count(pool, 'SELECT COUNT(*) FROM posts') === 3);
+    await pipeline.stop();
+    pipeline = null;
+
+    const saved = await pool.query("SELECT cursor_value FROM cursor_state WHERE id = 'main_cursor'");
+    assert.equal(Number(saved.rows[0].cursor_value), fixture
+      .map(step => ('event' in step ? step.event.time_us : 0))
+      .reduce((a, b) => Math.max(a, b)));
+
+    pipeline = await startPipeline(pool, {}, port, services);
+    await waitFor(async () => server.getConnections().length === 2);
+    assert.ok(server.getConnections()[1].cursor !== null);
+  });
+
+  it('waits for options_update when requireHello is set', async () => {
+    const port = await serve(fixture);
+    pipeline = await startPipeline(pool, {
+      requireHello: true,
+      wantedCollections: ['app.bsky.feed.post']
+    }, port, services);
+
+    await waitFor(async () => await count(pool, 'SELECT COUNT(*) FROM posts') === 3);
+    assert.equal(server.getConnections()[0].requireHello, true);
+    assert.equal(await count(pool, "SELECT COUNT(*) FROM engagements WHERE type IN ('like', 'repost')"), 0);
+  });
+
+  it('applies deletes and edits sent right after the create they refer to', async () => {
+    const [p1, p2, , , , , , reply] = fixture as { event: any }[];
+    const edit = {
+      ...p1.event,
+      time_us: p1.event.time_us + 1,
+      commit: { ...p1.event.commit, operation: 'update', cid: 'cid-p1-edited', record: { ...p1.event.commit.record, text: 'Edited' } }
+    };
+    const deleteReply = {
+      did: 'did:plc:alice',
+      time_us: reply.event.time_us + 1,
+      kind: 'commit',
+      commit: { rev: 'a5', operation: 'delete', collection: 'app.bsky.feed.post', rkey: 'p3' }
+    };
+    const port = await serve([p2, p1, { event: edit }, reply, { event: deleteReply }]);
+    pipeline = await startPipeline(pool, {}, port, services);
+
+    await waitFor(async () => await count(pool, "SELECT COUNT(*) FROM posts WHERE rkey = 'p3' AND deleted_at IS NOT NULL") === 1);
+
+    const edited = await pool.query("SELECT text, revision_count FROM posts WHERE rkey = 'p1'");
+    assert.deepEqual(edited.rows[0], { text: 'Edited', revision_count: 1 });
+    assert.equal(await count(pool, "SELECT COUNT(*) FROM engagements WHERE type = 'reply' AND deleted_at IS NULL"), 0);
+  });
+
+  it('archives the replaced version on each post update and skips replayed updates', async () => {
+    const [p1] = fixture as { event: any }[];
+    const update = (offset: number, cid: string, text: string) => ({
+      event: {
+        ...p1.event,
+        time_us: p1.event.time_us + offset,
+        commit: { ...p1.event.commit, operation: 'update', cid, record: { ...p1.event.commit.record, text } }
+      }
+    });
+    const port = await serve([p1, update(1, 'cid-e1', 'First edit'), update(2, 'cid-e1', 'First edit'), update(3, 'cid-e2', 'Second edit')]);
+    pipeline = await startPipeline(pool, {}, port, services);
+
+    await waitFor(async () => await count(pool, "SELECT COUNT(*) FROM posts WHERE rkey = 'p1' AND cid = 'cid-e2'") === 1);
+
+    const post = await pool.query("SELECT text, revision_count, edited_at IS NOT NULL AS edited FROM posts WHERE rkey = 'p1'");
+    assert.deepEqual(post.rows[0], { text: 'Second edit', revision_count: 2, edited: true });
+
+    const revisions = await pool.query('SELECT cid, text, superseded_by_cid FROM post_revisions ORDER BY id');
+    assert.deepEqual(revisions.rows, [
+      { cid: 'cid-p1', text: 'Hello from alice #intro', superseded_by_cid: 'cid-e1' },
+      { cid: 'cid-e1', text: 'First edit', superseded_by_cid: 'cid-e2' }
+    ]);
+  });
+
+  it('keeps each reply as its own engagement when one is deleted', async () => {
+    const [, p2, , , , , , reply] = fixture as { event: any }[];
+    const secondReply = {
+      ...reply.event,
+      time_us: reply.event.time_us + 1,
+      commit: { ...reply.event.commit, rkey: 'p4', cid: 'cid-p4', record: { ...reply.event.commit.record, text: 'And again' } }
+    };
+    const deleteFirst = {
+      did: 'did:plc:alice',
+      time_us: reply.event.time_us + 2,
+      kind: 'commit',
+      commit: { rev: 'a5', operation: 'delete', collection: 'app.bsky.feed.post', rkey: 'p3' }
+    };
+    const port = await serve([p2, reply, { event: secondReply }, { event: deleteFirst }]);
+    pipeline = await startPipeline(pool, {}, port, services);
+
+    await waitFor(async () => await count(pool, "SELECT COUNT(*) FROM posts WHERE rkey = 'p3' AND deleted_at IS NOT NULL") === 1);
+
+    const replies = await pool.query(`
+      SELECT reply_uri, deleted_at IS NOT NULL AS deleted FROM engagements
+      WHERE type = 'reply' ORDER BY reply_uri
+    `);
+    assert.deepEqual(replies.rows, [
+      { reply_uri: 'at://did:plc:alice/app.bsky.feed.post/p3', deleted: true },
+      { reply_uri: 'at://did:plc:alice/app.bsky.feed.post/p4', deleted: false }
+    ]);
+  });
+
+  it('flags posts while their author is deactivated and clears the flag on reactivation', async () => {
+    const account = (seq: number, active: boolean, status?: string) => ({
+      event: {
+        did: 'did:plc:alice',
+        time_us: 1700000100000000 + seq,
+        kind: 'account',
+        account: { did: 'did:plc:alice', active, status, seq, time: '2023-11-14T22:15:00.000Z' }
+      }
+    });
+    const port = await serve([fixture[0], account(1, false, 'deactivated'), { delayMs: 300 }, account(2, true)]);
+    pipeline = await startPipeline(pool, {}, port, services);
+
+    await waitFor(async () => await count(pool, "SELECT COUNT(*) FROM users WHERE did = 'did:plc:alice' AND account_status = 'deactivated'") === 1);
+    assert.equal(await count(pool, "SELECT COUNT(*) FROM posts WHERE did = 'did:plc:alice' AND NOT author_active"), 1);
+
+    // Jetstream leaves out the status of active accounts
+    await waitFor(async () => await count(pool, "SELECT COUNT(*) FROM users WHERE did = 'did:plc:alice' AND active AND account_status = 'active'") === 1);
+    assert.equal(await count(pool, "SELECT COUNT(*) FROM posts WHERE did = 'did:plc:alice' AND author_active"), 1);
+
+    const history = await pool.query("SELECT active, status, seq FROM account_status_history ORDER BY seq");
+    assert.deepEqual(history.rows, [
+      { active: false, status: 'deactivated', seq: '1' },
+      { active: true, status: 'active', seq: '2' }
+    ]);
+  });
+
+  it('stores posts as inactive when the account event arrived before them', async () => {
+    const [p1] = fixture as { event: any }[];
+    const takedown = {
+      did: 'did:plc:carol',
+      time_us: p1.event.time_us - 1,
+      kind: 'account',
+      account: { did: 'did:plc:carol', active: false, status: 'takendown', seq: 7, time: '2023-11-14T22:13:00.000Z' }
+    };
+    const post = {
+      ...p1.event,
+      did: 'did:plc:carol',
+      commit: { ...p1.event.commit, rkey: 'c1', cid: 'cid-c1' }
+    };
+    const port = await serve([{ event: takedown }, { delayMs: 200 }, { event: post }]);
+    pipeline = await startPipeline(pool, {}, port, services);
+
+    await waitFor(async () => await count(pool, "SELECT COUNT(*) FROM posts WHERE rkey = 'c1'") === 1);
+
+    const carol = await pool.query("SELECT is_stub, active, account_status FROM users WHERE did = 'did:plc:carol'");
+    assert.deepEqual(carol.rows[0], { is_stub: true, active: false, account_status: 'takendown' });
+    assert.equal(await count(pool, "SELECT COUNT(*) FROM posts WHERE rkey = 'c1' AND NOT author_active"), 1);
+  });
+
+  it('ignores account events older than the stored status', async () => {
+    const account = (seq: number, active: boolean, status?: string) => ({
+      event: {
+        did: 'did:plc:alice',
+        time_us: 1700000100000000 + seq,
+        kind: 'account',
+        account: { did: 'did:plc:alice', active, status, seq, time: '2023-11-14T22:15:00.000Z' }
+      }
+    });
+    // The takedown arrives first, then a replayed activation from before it
+    const port = await serve([fixture[0], account(200, false, 'takendown'), account(150, true)]);
+    pipeline = await startPipeline(pool, {}, port, services);
+
+    await waitFor(async () => await count(pool, 'SELECT COUNT(*) FROM account_status_history') === 2);
+
+    const user = await pool.query("SELECT active, account_status, account_seq FROM users WHERE did = 'did:plc:alice'");
+    assert.deepEqual(user.rows[0], { active: false, account_status: 'takendown', account_seq: '200' });
+    assert.equal(await count(pool, "SELECT COUNT(*) FROM posts WHERE did = 'did:plc:alice' AND author_active"), 0);
+  });
+
+  it('stores engagements and follows for unseen posts and users as stubs', async () => {
+    // Bob's like of alice's first post arrives before the post, and carol is unknown
+    const [post, , like] = fixture as { event: any }[];
+    const follow = {
+      did: 'did:plc:carol',
+      time_us: like.event.time_us + 1,
+      kind: 'commit',
+      commit: {
+        operation: 'create',
+        collection: 'app.bsky.graph.follow',
+        rkey: 'f9',
+        cid: 'cid-f9',
+        record: { $type: 'app.bsky.graph.follow', subject: 'did:plc:dave', createdAt: '2023-11-14T22:13:24.000Z' }
+      }
+    };
+    const port = await serve([like, { event: follow }, { delayMs: 200 }, post]);
+    pipeline = await startPipeline(pool, {}, port, services);
+
+    await waitFor(async () => await count(pool, "SELECT COUNT(*) FROM posts WHERE rkey = 'p1' AND NOT is_stub") === 1);
+
+    assert.equal(await count(pool, "SELECT COUNT(*) FROM engagements WHERE type = 'like'"), 1);
+    assert.equal(await count(pool, 'SELECT COUNT(*) FROM follows'), 1);
+    assert.equal(await count(pool, "SELECT COUNT(*) FROM users WHERE is_stub AND did IN ('did:plc:carol', 'did:plc:dave')"), 2);
+    assert.equal(await count(pool, 'SELECT COUNT(*) FROM dead_letters'), 0);
+
+    const upgraded = await pool.query("SELECT cid, created_at IS NOT NULL AS has_created_at, is_stub FROM posts WHERE rkey = 'p1'");
+    assert.deepEqual(upgraded.rows[0], { cid: 'cid-p1', has_created_at: true, is_stub: false });
+  });
+
+  it('only stubs the owner of liked or quoted records that are not posts', async () => {
+    const [p1, , like] = fixture as { event: any }[];
+    const feedUri = 'at://did:plc:carol/app.bsky.feed.generator/cats';
+    const feedLike = {
+      ...like.event,
+      time_us: like.event.time_us + 1,
+      commit: { ...like.event.commit, rkey: 'l2', record: { ...like.event.commit.record, subject: { uri: feedUri, cid: 'cid-cats' } } }
+    };
+    const listQuote = {
+      ...p1.event,
+      time_us: p1.event.time_us + 1,
+      commit: {
+        ...p1.event.commit,
+        rkey: 'p5',
+        cid: 'cid-p5',
+        record: {
+          ...p1.event.commit.record,
+          embed: { $type: 'app.bsky.embed.record', record: { uri: 'at://did:plc:dave/app.bsky.graph.list/friends', cid: 'cid-friends' } }
+        }
+      }
+    };
+    const port = await serve([{ event: listQuote }, { event: feedLike }, like]);
+    pipeline = await startPipeline(pool, {}, port, services);
+
+    await waitFor(async () => await count(pool, "SELECT COUNT(*) FROM engagements WHERE type = 'like'") === 1 &&
+      await count(pool, "SELECT COUNT(*) FROM users WHERE did = 'did:plc:carol'") === 1);
+
+    assert.equal(await count(pool, "SELECT COUNT(*) FROM posts WHERE uri NOT LIKE '%/app.bsky.feed.post/%'"), 0);
+    assert.equal(await count(pool, "SELECT COUNT(*) FROM engagements WHERE type = 'quote'"), 0);
+    assert.equal(await count(pool, 'SELECT COUNT(*) FROM dead_letters'), 0);
+  });
+
+  it('dead-letters failed events and reprocesses them on retry', async () => {
+    // Simulate a broken table so the follow can't be stored
+    await pool.query('ALTER TABLE follows RENAME TO follows_unavailable');
+    const follow = fixture.find(step => 'event' in step && step.event.commit?.collection === 'app.bsky.graph.follow') as { event: any };
+    const port = await serve([follow]);
+    pipeline = await startPipeline(pool, {}, port, services);
+
+    await waitFor(async () => await count(pool, "SELECT COUNT(*) FROM dead_letters WHERE status = 'pending'") === 1);
+    const [entry] = await pipeline.deadLetters.list();
+    assert.equal(entry.handler, 'follow-processing');
+    assert.deepEqual(entry.event, follow.event);
+
+    await pool.query('ALTER TABLE follows_unavailable RENAME TO follows');
+
+    const { resolved } = await pipeline.deadLetters.retryDue();
+    assert.equal(resolved, 1);
+    assert.equal(await count(pool, 'SELECT COUNT(*) FROM follows'), 1);
+  });
+
+  it('does not checkpoint past an event that could not be dead-lettered', async () => {
+    await pool.query('ALTER TABLE follows RENAME TO follows_unavailable');
+    await pool.query('ALTER TABLE dead_letters RENAME TO dead_letters_unavailable');
+    const [post, , , follow] = fixture as { event: any }[];
+    const port = await serve([post, follow]);
+    pipeline = await startPipeline(pool, {}, port, services);
+
+    await waitFor(async () => await count(pool, 'SELECT COUNT(*) FROM posts') === 1);
+    await new Promise(resolve => setTimeout(resolve, 300));
+    await pipeline.stop();
+    pipeline = null;
+
+    const saved = await pool.query("SELECT cursor_value FROM cursor_state WHERE id = 'main_cursor'");
+    assert.equal(Number(saved.rows[0].cursor_value), post.event.time_us);
+
+    await pool.query('ALTER TABLE follows_unavailable RENAME TO follows');
+    await pool.query('ALTER TABLE dead_letters_unavailable RENAME TO dead_letters');
+  });
+
+  it('hydrates profiles of users seen in the stream in batches', async () => {
+    const port = await serve(fixture);
+    pipeline = await startPipeline(pool, {}, port, services);
+
+    await waitFor(async () => await count(pool, 'SELECT COUNT(*) FROM users WHERE hydrated_at IS NOT NULL') === 2);
+
+    const alice = await pool.query("SELECT handle, display_name, follower_count, following_count, post_count FROM users WHERE did = 'did:plc:alice'");
+    assert.deepEqual(alice.rows[0], { handle: 'alice.test', display_name: 'Alice', follower_count: 10, following_count: 2, post_count: 5 });
+
+    const requests = appView.getRequests();
+    assert.ok(requests.every(actors => actors.length <= 25));
+    assert.ok(requests.flat().includes('did:plc:bob'));
+  });
+
+  it('pauses hydration at the rate limit and refreshes stale profiles', async () => {
+    const limitedAppView = new MockAppView({ profiles, rateLimit: { limit: 2, windowMs: 1000 } });
+    const hydrator = new ProfileHydrator(pool, {
+      appViewUrl: await limitedAppView.start(),
+      batchSize: 1,
+      flushIntervalMs: 20,
+      rateLimitReserve: 0
+    });
+    hydrator.start();
+
+    try {
+      ['did:plc:alice', 'did:plc:bob', 'did:plc:carol'].forEach(did => hydrator.enqueue(did));
+      await waitFor(async () => limitedAppView.getRequests().length === 3);
+      assert.equal(limitedAppView.getRejectedCount(), 0);
+      assert.equal(await count(pool, 'SELECT COUNT(*) FROM users WHERE hydrated_at IS NOT NULL'), 2);
+
+      limitedAppView.setProfile({ ...profiles['did:plc:alice'], followersCount: 11 });
+      await pool.query("UPDATE users SET hydrated_at = NOW() - INTERVAL '2 days' WHERE did = 'did:plc:alice'");
+      assert.equal(await hydrator.refreshStale(), 1);
+
+      await waitFor(async () => await count(pool, "SELECT COUNT(*) FROM users WHERE did = 'did:plc:alice' AND follower_count = 11") === 1);
+    } finally {
+      await hydrator.stop();
+      await limitedAppView.stop();
+    }
+  });
+
+  it('keeps a hydration batch queued when it cannot be stored', async () => {
+    const hydrator = new ProfileHydrator(pool, { appViewUrl: services.appView, retryDelayMs: 200 });
+    hydrator.enqueue('did:plc:alice');
+    hydrator.enqueue('did:plc:bob');
+
+    await pool.query('ALTER TABLE users RENAME TO users_unavailable');
+    try {
+      await hydrator.hydrate();
+    } finally {
+      await pool.query('ALTER TABLE users_unavailable RENAME TO users');
+    }
+
+    const failed = hydrator.getStats();
+    assert.deepEqual([failed.queued, failed.failedStores], [2, 1]);
+    assert.ok(failed.pausedUntil);
+
+    await new Promise(resolve => setTimeout(resolve, 250));
+    await hydrator.hydrate();
+    assert.equal(hydrator.getStats().queued, 0);
+    assert.equal(await count(pool, 'SELECT COUNT(*) FROM users WHERE hydrated_at IS NOT NULL'), 2);
+  });
+
+  it('only stores verified handles and reassigns them when they change owner', async () => {
+    const directory = new MockPlcDirectory(identities);
+    const directoryUrl = await directory.start();
+    const resolver = new IdentityResolver(pool, { plcDirectoryUrl: directoryUrl, handleResolverUrl: directoryUrl });
+
+    try {
+      // Carol takes over alice.test, which alice gave up for alice.example.com
+      directory.setDocument(MockPlcDirectory.didDocument('did:plc:carol', 'alice.test'));
+      directory.setDocument(MockPlcDirectory.didDocument('did:plc:alice', 'alice.example.com'));
+      directory.setHandle('alice.test', 'did:plc:carol');
+      directory.setHandle('alice.example.com', 'did:plc:alice');
+
+      const carol = await resolver.syncIdentity('did:plc:carol');
+      assert.equal(carol?.handle, 'alice.test');
+      assert.equal(resolver.getStats().queued, 1);
+
+      await resolver.process();
+      const handles = await pool.query("SELECT did, handle, handle_verified_at IS NOT NULL AS verified FROM users WHERE did IN ('did:plc:alice', 'did:plc:carol') ORDER BY did");
+      assert.deepEqual(handles.rows, [
+        { did: 'did:plc:alice', handle: 'alice.example.com', verified: true },
+        { did: 'did:plc:carol', handle: 'alice.test', verified: true }
+      ]);
+
+      // Dave claims bob.test, but it doesn't resolve back to him
+      directory.setDocument(MockPlcDirectory.didDocument('did:plc:dave', 'bob.test'));
+      const dave = await resolver.syncIdentity('did:plc:dave');
+      assert.deepEqual([dave?.handle, dave?.claimedHandle], [null, 'bob.test']);
+      assert.equal(await count(pool, "SELECT COUNT(*) FROM users WHERE handle = 'bob.test' AND did = 'did:plc:bob'"), 1);
+
+      // did:web documents are fetched from the DID's own host
+      const webDid = `did:web:${encodeURIComponent(new URL(directoryUrl).host)}`;
+      directory.setDocument(MockPlcDirectory.didDocument(webDid, 'web.test'));
+      directory.setHandle('web.test', webDid);
+      assert.equal((await resolver.syncIdentity(webDid))?.handle, 'web.test');
+
+      assert.equal(await resolver.syncIdentity('did:plc:unknown'), null);
+    } finally {
+      await directory.stop();
+    }
+  });
+
+  it('spaces out identity requests and waits out a 429 before retrying', async () => {
+    const directory = new MockPlcDirectory(identities);
+    const directoryUrl = await directory.start();
+    const resolver = new IdentityResolver(pool, {
+      plcDirectoryUrl: directoryUrl,
+      handleResolverUrl: directoryUrl,
+      maxRequestsPerSecond: 20,
+      requestBurst: 1
+    });
+
+    try {
+      // Each DID takes a document fetch and a handle lookup, 50ms apart after the first
+      const started = Date.now();
+      resolver.enqueue('did:plc:alice');
+      resolver.enqueue('did:plc:bob');
+      await resolver.process();
+      assert.ok(Date.now() - started >= 140);
+      assert.equal(await count(pool, 'SELECT COUNT(*) FROM users WHERE handle_verified_at IS NOT NULL'), 2);
+
+      resolver.invalidate('did:plc:alice');
+      directory.setRateLimited(1);
+      resolver.enqueue('did:plc:alice');
+      await resolver.process();
+
+      // Turned away once, then left queued without asking again or caching a miss
+      assert.equal(directory.getRejectedCount(), 1);
+      assert.equal(resolver.getStats().queued, 1);
+      assert.equal(resolver.getStats().unresolved, 0);
+      assert.ok(resolver.getStats().pausedUntil);
+      await resolver.process();
+      assert.equal(directory.getRejectedCount(), 1);
+
+      directory.setRateLimited(null);
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      await resolver.process();
+      assert.equal(resolver.getStats().queued, 0);
+      assert.equal(resolver.getStats().verified, 3);
+    } finally {
+      await directory.stop();
+    }
+  });
+
+  it('leaves profiles and handles alone when the processor is offline', async () => {
+    const appViewRequests = appView.getRequests().length;
+    const processor = new JetstreamProcessor(pool, {
+      offline: true,
+      batchFlushIntervalMs: 50,
+      appViewUrl: services.appView,
+      plcDirectoryUrl: services.plc,
+      handleResolverUrl: services.plc
+    });
+    await processor.start();
+    for (const step of fixture) {
+      if ('event' in step) await processor.processMessage(step.event);
+    }
+    // Longer than the hydrator's and resolver's flush intervals
+    await new Promise(resolve => setTimeout(resolve, 1200));
+    await processor.stop();
+
+    assert.equal(processor.getHydrationStats(), null);
+    assert.equal(appView.getRequests().length, appViewRequests);
+    assert.equal(await count(pool, 'SELECT COUNT(*) FROM users WHERE hydrated_at IS NOT NULL OR handle_verified_at IS NOT NULL'), 0);
+    assert.equal(await count(pool, "SELECT COUNT(*) FROM users WHERE did = 'did:plc:bob' AND handle = 'bob.test'"), 1);
+  });
+
+  it('writes feature vectors for each engagement horizon a post has passed', async () => {
+    await pool.query(`
+      INSERT INTO posts (did, rkey, uri, cid, text, created_at, hour_timestamp, indexed_at) VALUES
+        ('did:plc:alice', 'f1', 'at://did:plc:alice/app.bsky.feed.post/f1', 'cid-f1', 'Feature pipelines for feed ranking',
+          NOW() - INTERVAL '2 hours', date_trunc('hour', NOW() - INTERVAL '2 hours'), NOW()),
+        ('did:plc:alice', 'f0', 'at://did:plc:alice/app.bsky.feed.post/f0', 'cid-f0', 'An older post about ranking',
+          NOW() - INTERVAL '30 hours', date_trunc('hour', NOW() - INTERVAL '30 hours'), NOW()),
+        ('did:plc:bob', 'f2', 'at://did:plc:bob/app.bsky.feed.post/f2', 'cid-f2', 'Too new for any horizon',
+          NOW() - INTERVAL '1 minute', date_trunc('hour', NOW()), NOW())
+    `);
+    // A like within 5 minutes, and a repost later in the first hour
+    await pool.query(`
+      INSERT INTO engagements (post_uri, actor_did, type, created_at) VALUES
+        ('at://did:plc:alice/app.bsky.feed.post/f1', 'did:plc:bob', 'like', NOW() - INTERVAL '119 minutes'),
+        ('at://did:plc:alice/app.bsky.feed.post/f1', 'did:plc:bob', 'repost', NOW() - INTERVAL '90 minutes')
+    `);
+
+    const features = new FeaturePipeline(pool);
+    assert.equal(await features.run(), 2);
+
+    const row = await pool.query(`
+      SELECT horizon, engagement_features, array_length(text_embedding, 1) AS text_dims, array_length(user_embedding, 1) AS user_dims
+      FROM feature_vectors WHERE post_uri = 'at://did:plc:alice/app.bsky.feed.post/f1'
+    `);
+    assert.deepEqual(row.rows[0], {
+      horizon: '1h',
+      engagement_features: {
+        '5m': { likes: 1, reposts: 0, replies: 0, quotes: 0, unique_engagers: 1 },
+        '1h': { likes: 1, reposts: 1, replies: 0, quotes: 0, unique_engagers: 1 }
+      },
+      text_dims: 256,
+      user_dims: 256
+    });
+
+    // Nothing new is due until the next horizon passes
+    assert.equal(await features.run(), 0);
+  });
+
+  it('serves ranked feed skeletons with cursor pagination', async () => {
+    const post = (rkey: string, age: string, replyTo: string | null = null) => `
+      ('did:plc:alice', '${rkey}', 'at://did:plc:alice/app.bsky.feed.post/${rkey}', 'cid-${rkey}', 'post ${rkey}',
+        NOW() - INTERVAL '${age}', date_trunc('hour', NOW() - INTERVAL '${age}'), NOW(), ${replyTo ? `'${replyTo}'` : 'NULL'})
+    `;
+    const uri = (rkey: string) => `at://did:plc:alice/app.bsky.feed.post/${rkey}`;
+
+    await pool.query(`
+      INSERT INTO posts (did, rkey, uri, cid, text, created_at, hour_timestamp, indexed_at, reply_to) VALUES
+        ${post('a', '2 hours')}, ${post('b', '1 hour')}, ${post('c', '10 minutes')}, ${post('d', '5 minutes', uri('a'))}
+    `);
+    await pool.query(`
+      INSERT INTO engagements (post_uri, actor_did, type, created_at) VALUES
+        ('${uri('a')}', 'did:plc:bob', 'like', NOW() - INTERVAL '90 minutes'),
+        ('${uri('a')}', 'did:plc:bob', 'repost', NOW() - INTERVAL '90 minutes'),
+        ('${uri('a')}', 'did:plc:alice', 'like', NOW() - INTERVAL '60 minutes'),
+        ('${uri('c')}', 'did:plc:bob', 'like', NOW() - INTERVAL '5 minutes')
+    `);
+
+    const generator = new FeedGenerator(pool, {
+      serviceDid: 'did:web:feeds.test',
+      publisherDid: 'did:plc:alice',
+      feeds: [
+        { name: 'new', ranker: latestRanker() },
+        { name: 'hot', ranker: popularRanker() }
+      ]
+    });
+    const app = express();
+    setupFeedRoutes(app, generator, 'feeds.test');
+    const httpServer = http.createServer(app).listen(0, '127.0.0.1');
+    await new Promise(resolve => httpServer.once('listening', resolve));
+    const base = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/xrpc`;
+
+    const skeleton = async (feed: string, limit: number, cursor?: string) => {
+      const params = new URLSearchParams({ feed: generator.feedUri(feed), limit: String(limit) });
+      if (cursor) params.set('cursor', cursor);
+      const response = await fetch(`${base}/app.bsky.feed.getFeedSkeleton?${params}`);
+      return { status: response.status, body: await response.json() as any };
+    };
+
+    try {
+      const description = await (await fetch(`${base}/app.bsky.feed.describeFeedGenerator`)).json() as any;
+      assert.deepEqual(description, {
+        did: 'did:web:feeds.test',
+        feeds: [{ uri: generator.feedUri('new') }, { uri: generator.feedUri('hot') }]
+      });
+
+      const latest = await skeleton('new', 10);
+      assert.deepEqual(latest.body.feed.map((item: any) => item.post), [uri('c'), uri('b'), uri('a')]);
+      assert.equal(latest.body.cursor, undefined);
+
+      // Replies are left out, and the first page's cursor continues where it stopped
+      const first = await skeleton('hot', 2);
+      assert.deepEqual(first.body.feed.map((item: any) => item.post), [uri('a'), uri('c')]);
+      const second = await skeleton('hot', 2, first.body.cursor);
+      assert.deepEqual(second.body.feed.map((item: any) => item.post), [uri('b')]);
+      assert.equal(second.body.cursor, undefined);
+
+      assert.equal((await skeleton('missing', 10)).body.error, 'UnknownFeed');
+      assert.equal((await skeleton('hot', 10, 'not-a-cursor')).status, 400);
+    } finally {
+      await new Promise(resolve => httpServer.close(resolve));
+    }
+  });
+
+  it('counts each hour of posts by language', async () => {
+    const post = (did: string, rkey: string, language: string | null, source: string, confidence: number | null, deleted = false) => `
+      ('${did}', '${rkey}', 'at://${did}/app.bsky.feed.post/${rkey}', 'cid-${rkey}', 'post ${rkey}',
+        date_trunc('hour', NOW()) - INTERVAL '30 minutes', date_trunc('hour', NOW()) - INTERVAL '1 hour', NOW(),
+        ${language ? `'${language}'` : 'NULL'}, '${source}', ${confidence ?? 'NULL'}, ${deleted ? 'NOW()' : 'NULL'})
+    `;
+    await pool.query(`
+      INSERT INTO posts (did, rkey, uri, cid, text, created_at, hour_timestamp, indexed_at,
+        language, language_source, language_confidence, deleted_at) VALUES
+        ${post('did:plc:alice', 'a', 'en', 'declared', null)}, ${post('did:plc:bob', 'b', 'en', 'declared', null)},
+        ${post('did:plc:bob', 'c', 'en', 'declared', null, true)}, ${post('did:plc:alice', 'd', 'ja', 'detected', 0.75)},
+        ${post('did:plc:alice', 'e', null, 'unknown', null)}
+    `);
+
+    const aggregation = new AggregationService(pool);
+    await aggregation.computeShortTermMetrics();
+
+    const languages = await aggregation.getHourlyLanguageMetrics();
+    assert.deepEqual(languages.map(row => [row.language, row.post_count, row.unique_author_count, row.declared_count, row.detected_count, row.avg_detected_confidence]), [
+      ['en', 2, 2, 2, 0, null],
+      ['ja', 1, 1, 0, 1, 0.75],
+      ['und', 1, 1, 0, 0, null]
+    ]);
+  });
+
+  it('snapshots trending posts normalized by author baseline', async () => {
+    const uri = (did: string, rkey: string) => `at://${did}/app.bsky.feed.post/${rkey}`;
+    const post = (did: string, rkey: string, age: string) => `
+      ('${did}', '${rkey}', '${uri(did, rkey)}', 'cid-${rkey}', 'post ${rkey}',
+        NOW() - INTERVAL '${age}', date_trunc('hour', NOW() - INTERVAL '${age}'), NOW())
+    `;
+    const engage = (postUri: string, actor: string, type: string, age: string) =>
+      `('${postUri}', 'did:plc:${actor}', '${type}', NOW() - INTERVAL '${age}')`;
+
+    await pool.query(`
+      INSERT INTO users (did, handle) VALUES
+        ('did:plc:carol', 'carol.test'), ('did:plc:dave', 'dave.test'), ('did:plc:erin', 'erin.test')
+    `);
+    await pool.query(`
+      INSERT INTO posts (did, rkey, uri, cid, text, created_at, hour_timestamp, indexed_at) VALUES
+        ${post('did:plc:alice', 'a', '30 minutes')}, ${post('did:plc:alice', 'quiet', '30 minutes')},
+        ${post('did:plc:bob', 'b', '30 minutes')}, ${post('did:plc:bob', 'old', '3 days')}
+    `);
+    const a = uri('did:plc:alice', 'a');
+    const b = uri('did:plc:bob', 'b');
+    const old = uri('did:plc:bob', 'old');
+    await pool.query(`
+      INSERT INTO engagements (post_uri, actor_did, type, created_at) VALUES
+        ${engage(a, 'carol', 'like', '10 minutes')}, ${engage(a, 'dave', 'like', '10 minutes')},
+        ${engage(a, 'erin', 'like', '10 minutes')},
+        ${engage(uri('did:plc:alice', 'quiet'), 'carol', 'like', '10 minutes')},
+        ${engage(uri('did:plc:alice', 'quiet'), 'dave', 'like', '10 minutes')},
+        ${engage(b, 'carol', 'like', '10 minutes')}, ${engage(b, 'dave', 'like', '10 minutes')},
+        ${engage(b, 'erin', 'like', '10 minutes')}, ${engage(b, 'erin', 'repost', '10 minutes')},
+        ${engage(old, 'carol', 'like', '3 days')}, ${engage(old, 'dave', 'like', '3 days')},
+        ${engage(old, 'erin', 'like', '3 days')}, ${engage(old, 'erin', 'repost', '3 days')}
+    `);
+
+    const aggregation = new AggregationService(pool);
+    await aggregation.computeTrendingPosts();
+    const snapshot = await aggregation.computeTrendingPosts();
+    assert.equal(snapshot.posts, 2);
+
+    const app = express();
+    setupApiRoutes(app, pool);
+    const httpServer = http.createServer(app).listen(0, '127.0.0.1');
+    await new Promise(resolve => httpServer.once('listening', resolve));
+
+    try {
+      const port = (httpServer.address() as AddressInfo).port;
+      const trending = await (await fetch(`http://127.0.0.1:${port}/api/trending/posts`)).json() as any;
+
+      // Only the latest snapshot; bob's post has more engagement, but that's usual for bob
+      assert.equal(new Date(trending.snapshotAt).getTime(), snapshot.snapshotAt.getTime());
+      assert.deepEqual(trending.posts.map((item: any) => [item.rank, item.uri, item.handle]), [
+        [1, a, 'alice.test'],
+        [2, b, 'bob.test']
+      ]);
+
+      const [first, second] = trending.posts;
+      assert.deepEqual(
+        [second.breakdown.likes, second.breakdown.reposts, second.breakdown.replies, second.breakdown.authorBaseline],
+        [3, 1, 0, 5]
+      );
+      assert.equal(first.breakdown.authorBaseline, 0);
+      assert.ok(first.breakdown.ageDecay < 1 && first.breakdown.ageDecay > 0.9);
+      assert.ok(Math.abs(first.score - first.breakdown.velocity * first.breakdown.ageDecay) < 1e-9);
+    } finally {
+      await new Promise(resolve => httpServer.close(resolve));
+    }
+  });
+
+  it('decodes zstd-compressed frames with the configured dictionary', async () => {
+    const dictionary = Buffer.from(fs.readFileSync(path.join(__dirname, '../fixtures/jetstream-events.ndjson'), 'utf8').repeat(4));
+    const dictionaryPath = path.join(os.tmpdir(), `jetstream-test-dictionary-${process.pid}`);
+    fs.writeFileSync(dictionaryPath, dictionary);
+
+    try {
+      const port = await serve(fixture, dictionary);
+      pipeline = await startPipeline(pool, { compress: true, zstdDictionaryPath: dictionaryPath }, port, services);
+
+      await waitFor(async () => await count(pool, 'SELECT COUNT(*) FROM posts') === 3);
+
+      const bandwidth = pipeline.collector.getBandwidthStats();
+      assert.equal(server.getConnections()[0].compress, true);
+      assert.ok(bandwidth.bytesReceived < bandwidth.bytesDecompressed);
+    } finally {
+      fs.unlinkSync(dictionaryPath);
+    }
+  });
+});
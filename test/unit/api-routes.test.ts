@@ -0,0 +1,83 @@
+import { describe, it, before, after, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { Pool } from 'pg';
+import { setupApiRoutes, IngestionComponents } from '../../src/api/api-routes';
+
+describe('admin API routes', () => {
+  let httpServer: http.Server;
+  let base: string;
+  const calls: any[] = [];
+
+  // Stand-ins that only record what reaches them
+  const ingestion = {
+    collector: {
+      getSubscription: () => ({ wantedDids: ['did:plc:alice'] }),
+      updateSubscription: (options: any) => { calls.push(['updateSubscription', options]); return options; }
+    },
+    deadLetters: {
+      retry: async (id: number) => { calls.push(['retry', id]); return { id }; },
+      discard: async (id: number) => { calls.push(['discard', id]); return true; }
+    }
+  } as unknown as IngestionComponents;
+
+  const request = async (method: string, path: string, body?: any, token = 'secret') => {
+    const response = await fetch(`${base}${path}`, {
+      method,
+      headers: { 'content-type': 'application/json', authorization: `Bearer ${token}` },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    return { status: response.status, body: await response.json() as any };
+  };
+
+  before(async () => {
+    const app = express();
+    setupApiRoutes(app, {} as Pool, ingestion);
+    httpServer = http.createServer(app).listen(0, '127.0.0.1');
+    await new Promise(resolve => httpServer.once('listening', resolve));
+    base = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/api`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => httpServer.close(resolve));
+  });
+
+  afterEach(() => {
+    delete process.env.ADMIN_TOKEN;
+    calls.length = 0;
+  });
+
+  it('refuses every admin route when ADMIN_TOKEN is not set', async () => {
+    assert.equal((await request('GET', '/admin/subscription')).status, 503);
+    assert.equal((await request('PUT', '/admin/subscription', { wantedDids: [] })).status, 503);
+    assert.equal((await request('POST', '/admin/subscription/dids', { add: ['did:plc:bob'] })).status, 503);
+    assert.equal((await request('POST', '/admin/dead-letters/1/retry')).status, 503);
+    assert.equal((await request('POST', '/admin/dead-letters/1/discard')).status, 503);
+    assert.deepEqual(calls, []);
+  });
+
+  it('requires the token when it is set', async () => {
+    process.env.ADMIN_TOKEN = 'secret';
+
+    assert.equal((await request('POST', '/admin/dead-letters/1/discard', undefined, 'wrong')).status, 401);
+    assert.equal((await request('POST', '/admin/dead-letters/1/discard')).status, 200);
+    assert.deepEqual(calls, [['discard', 1]]);
+  });
+
+  it('rejects malformed DIDs and ids before they reach the collector or database', async () => {
+    process.env.ADMIN_TOKEN = 'secret';
+
+    assert.equal((await request('PUT', '/admin/subscription', { wantedDids: 'did:plc:bob' })).status, 400);
+    assert.equal((await request('PUT', '/admin/subscription', { wantedDids: ['bob.test'] })).status, 400);
+    assert.equal((await request('POST', '/admin/subscription/dids', { add: [42] })).status, 400);
+    assert.equal((await request('POST', '/admin/subscription/dids', { remove: 'did:plc:alice' })).status, 400);
+    assert.equal((await request('POST', '/admin/dead-letters/1%20OR%201=1/retry')).status, 400);
+    assert.equal((await request('POST', '/admin/dead-letters/abc/discard')).status, 400);
+    assert.deepEqual(calls, []);
+
+    const updated = await request('POST', '/admin/subscription/dids', { add: ['did:plc:bob'], remove: ['did:plc:alice'] });
+    assert.deepEqual(updated.body, { wantedDids: ['did:plc:bob'] });
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Pool } from 'pg';
+import { BatchWriter } from '../../src/batch-writer';
+
+/**
+ * A pool whose client records each query's bind parameter count instead of running it
+ */
+function recordingPool(queries: number[]): Pool {
+  const client = {
+    query: async (sql: string, params: any[] = []) => {
+      if (params.length > 65535) throw new Error('bind message has too many parameters');
+      queries.push(params.length);
+      return { rows: [], rowCount: 0 };
+    },
+    release: () => undefined
+  };
+  return { connect: async () => client } as unknown as Pool;
+}
+
+describe('BatchWriter', () => {
+  it('splits a batch into INSERTs under the bind parameter limit', async () => {
+    const queries: number[] = [];
+    const writer = new BatchWriter(recordingPool(queries), { maxBatchSize: 100_000 });
+    const columns = Array.from({ length: 30 }, (_, i) => `c${i}`);
+    writer.registerTable('wide', { columns, key: row => row.c0, did: () => 'did:plc:alice' });
+
+    const writes: Promise<void>[] = [];
+    for (let i = 0; i < 5000; i++) {
+      writes.push(writer.write('wide', Object.fromEntries(columns.map(column => [column, i]))));
+    }
+    await writer.close();
+    await Promise.all(writes);
+
+    // 2184 rows of 30 columns fit in one INSERT
+    assert.deepEqual(queries, [2184 * 30, 2184 * 30, 632 * 30]);
+    assert.equal(writer.getStats().rowsWritten.wide, 5000);
+  });
+});
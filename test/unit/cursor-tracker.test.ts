@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CursorTracker } from '../../src/cursor-tracker';
+
+describe('CursorTracker', () => {
+  it('holds the watermark at the oldest event still in flight', () => {
+    const tracker = new CursorTracker(100);
+    const first = {}, second = {}, third = {};
+    tracker.begin(first, 110);
+    tracker.begin(second, 120);
+    tracker.begin(third, 130);
+
+    // Later events finishing first can't move the watermark past an unfinished one
+    tracker.complete(third);
+    tracker.complete(second);
+    assert.equal(tracker.getWatermark(), 100);
+    assert.equal(tracker.getInFlightCount(), 3);
+
+    tracker.complete(first);
+    assert.equal(tracker.getWatermark(), 130);
+    assert.equal(tracker.getInFlightCount(), 0);
+  });
+
+  it('never moves the watermark backwards or counts a message twice', () => {
+    const tracker = new CursorTracker(200);
+    const replayed = {}, next = {};
+    tracker.begin(replayed, 150);
+    tracker.begin(next, 210);
+
+    tracker.complete(replayed);
+    assert.equal(tracker.getWatermark(), 200);
+
+    tracker.complete(replayed);
+    tracker.complete({});
+    assert.equal(tracker.getInFlightCount(), 1);
+
+    tracker.complete(next);
+    assert.equal(tracker.getWatermark(), 210);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DidSequencer } from '../../src/did-sequencer';
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+describe('DidSequencer', () => {
+  it('lets shared turns overlap and holds an exclusive turn until they finish', async () => {
+    const sequencer = new DidSequencer();
+    const started: string[] = [];
+    const take = (name: string, exclusive: boolean) => sequencer.acquire('did:plc:alice', exclusive)
+      .then(release => { started.push(name); return release; });
+
+    const create1 = take('create1', false);
+    const create2 = take('create2', false);
+    const del = take('delete', true);
+    const create3 = take('create3', false);
+    await tick();
+    assert.deepEqual(started, ['create1', 'create2']);
+
+    (await create1)();
+    await tick();
+    assert.deepEqual(started, ['create1', 'create2']);
+
+    (await create2)();
+    await tick();
+    assert.deepEqual(started, ['create1', 'create2', 'delete']);
+
+    (await del)();
+    (await create3)();
+    assert.equal(sequencer.size(), 0);
+  });
+
+  it('does not order different DIDs against each other', async () => {
+    const sequencer = new DidSequencer();
+    const alice = await sequencer.acquire('did:plc:alice', true);
+    const bob = await sequencer.acquire('did:plc:bob', true);
+
+    alice();
+    bob();
+    assert.equal(sequencer.size(), 0);
+  });
+});
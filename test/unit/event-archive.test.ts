@@ -0,0 +1,62 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { EventArchive, listArchiveFiles } from '../../src/event-archive';
+
+const event = (timeUs: number) => JSON.stringify({ did: 'did:plc:alice', time_us: timeUs, kind: 'identity' });
+
+function readLines(file: string): string[] {
+  return zlib.gunzipSync(fs.readFileSync(file)).toString().split('\n').filter(Boolean);
+}
+
+describe('EventArchive', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'event-archive-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('rotates by size and names files after their first event in time order', async () => {
+    const archive = new EventArchive({ directory, maxFileBytes: 2 * (event(1).length + 1) });
+    for (const timeUs of [9, 10, 11, 120, 121]) {
+      archive.write(event(timeUs), timeUs);
+    }
+    await archive.close();
+
+    const files = listArchiveFiles(directory);
+    assert.deepEqual(files.map(file => file.firstTimeUs), [9, 11, 121]);
+    assert.deepEqual(files.map(file => readLines(file.path)), [
+      [event(9), event(10)],
+      [event(11), event(120)],
+      [event(121)]
+    ]);
+  });
+
+  it('rotates a file once it is older than maxFileAgeMs', async () => {
+    const archive = new EventArchive({ directory, maxFileAgeMs: 20 });
+    archive.write(event(1), 1);
+    archive.write(event(2) + '\n', 2);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    archive.write(event(3), 3);
+    await archive.close();
+
+    const files = listArchiveFiles(directory);
+    assert.deepEqual(files.map(file => readLines(file.path)), [[event(1), event(2)], [event(3)]]);
+  });
+
+  it('lists only archive files', async () => {
+    fs.writeFileSync(path.join(directory, 'notes.txt'), 'not an archive');
+    const archive = new EventArchive({ directory });
+    archive.write(event(5), 5);
+    await archive.close();
+
+    assert.deepEqual(listArchiveFiles(directory).map(file => path.basename(file.path)), ['events-00000000000000005.ndjson.gz']);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EventArchive } from '../../src/event-archive';
+import { EventReplay } from '../../src/event-replay';
+import { MessageQueue } from '../../src/message-queue';
+
+describe('EventReplay', () => {
+  let directory: string;
+
+  // Three files of ten events each: time_us 1-10, 11-20 and 21-30
+  before(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'event-replay-test-'));
+    const line = (timeUs: number) => JSON.stringify({ did: 'did:plc:alice', time_us: timeUs, kind: 'identity' });
+    const archive = new EventArchive({ directory, maxFileBytes: 10 * (line(10).length + 1) });
+    for (let timeUs = 1; timeUs <= 30; timeUs++) {
+      archive.write(line(timeUs), timeUs);
+    }
+    await archive.close();
+  });
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const replay = async (config: { fromTimeUs?: number, toTimeUs?: number }, maxSize?: number) => {
+    const handled: number[] = [];
+    const queue = new MessageQueue(async message => {
+      await new Promise(resolve => setImmediate(resolve));
+      handled.push(message.time_us);
+    }, { maxSize, concurrency: 1 });
+
+    let fullCount = 0;
+    queue.on('full', () => fullCount++);
+
+    const replayed = await new EventReplay({ directory, ...config }).run(queue);
+    return { replayed, handled, fullCount };
+  };
+
+  it('replays every file in time order', async () => {
+    const { replayed, handled } = await replay({});
+    assert.equal(replayed, 30);
+    assert.deepEqual(handled, Array.from({ length: 30 }, (_, i) => i + 1));
+  });
+
+  it('only replays events inside the requested range', async () => {
+    const { replayed, handled } = await replay({ fromTimeUs: 15, toTimeUs: 22 });
+    assert.equal(replayed, 8);
+    assert.deepEqual(handled, [15, 16, 17, 18, 19, 20, 21, 22]);
+  });
+
+  it('waits for a full queue to drain without reordering events', async () => {
+    const { replayed, handled, fullCount } = await replay({}, 4);
+    assert.equal(replayed, 30);
+    assert.ok(fullCount > 0);
+    assert.deepEqual(handled, Array.from({ length: 30 }, (_, i) => i + 1));
+  });
+});
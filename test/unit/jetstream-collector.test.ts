@@ -0,0 +1,106 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import events from 'events';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocketServer } from 'ws';
+import { JetstreamCollector, JetstreamConfig } from '../../src/jetstream-collector';
+
+// The pool is never queried: these tests open the socket without run(),
+// which would migrate and load the cursor
+const pgConfig = { host: '127.0.0.1', port: 1, database: 'unused', user: 'unused', password: '' };
+
+/**
+ * A local address nothing listens on, so every connection attempt is refused
+ */
+async function closedEndpoint(): Promise<string> {
+  const server = http.createServer().listen(0, '127.0.0.1');
+  await events.once(server, 'listening');
+  const port = (server.address() as AddressInfo).port;
+  await new Promise(resolve => server.close(resolve));
+  return `ws://127.0.0.1:${port}/subscribe`;
+}
+
+function waitForEvents(emitter: events.EventEmitter, name: string, count: number): Promise<any[]> {
+  const seen: any[] = [];
+  return new Promise(resolve => {
+    emitter.on(name, event => {
+      seen.push(event);
+      if (seen.length === count) resolve(seen);
+    });
+  });
+}
+
+describe('JetstreamCollector reconnects', () => {
+  let collector: JetstreamCollector | null;
+
+  const start = (config: JetstreamConfig, reconnectDelay: number) => {
+    collector = new JetstreamCollector(pgConfig, config, reconnectDelay);
+    collector.on('error', () => { /* connection errors are expected here */ });
+    (collector as any).connect();
+    return collector;
+  };
+
+  beforeEach(() => {
+    collector = null;
+    // Take the top of the jitter range so delays are exact
+    mock.method(Math, 'random', () => 1);
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    if (collector) await collector.stop();
+  });
+
+  it('doubles the delay up to maxReconnectDelay and fails over after repeated failures', async () => {
+    const primary = await closedEndpoint();
+    const fallback = await closedEndpoint();
+    const collector = start({
+      endpoint: primary,
+      fallbackEndpoints: [fallback],
+      failoverAfterAttempts: 2,
+      maxReconnectDelay: 80
+    }, 20);
+
+    const failovers: any[] = [];
+    collector.on('failover', event => failovers.push(event));
+    const attempts = await waitForEvents(collector, 'reconnecting', 5);
+
+    assert.deepEqual(attempts.map(attempt => attempt.delayMs), [20, 40, 80, 80, 80]);
+    assert.deepEqual(attempts.map(attempt => attempt.endpoint), [primary, fallback, fallback, primary, primary]);
+    assert.deepEqual(failovers.map(failover => [failover.from, failover.endpoint]), [[primary, fallback], [fallback, primary]]);
+
+    const health = collector.getEndpointHealth();
+    assert.deepEqual(health.map(endpoint => endpoint.totalFailures), [3, 2]);
+    // Switching back to an endpoint doesn't clear its failures
+    assert.deepEqual(health.map(endpoint => endpoint.consecutiveFailures), [3, 2]);
+    assert.deepEqual(health.map(endpoint => endpoint.active), [true, false]);
+  });
+
+  it('only resets the backoff once a connection delivers data', async () => {
+    const wss = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    await events.once(wss, 'listening');
+
+    // The first two connections are dropped straight away, later ones get an event first
+    let connections = 0;
+    wss.on('connection', socket => {
+      connections++;
+      if (connections > 2) {
+        socket.send(JSON.stringify({ did: 'did:plc:alice', time_us: connections, kind: 'identity' }));
+      }
+      socket.close();
+    });
+
+    try {
+      const collector = start({ endpoint: `ws://127.0.0.1:${(wss.address() as AddressInfo).port}/subscribe` }, 10);
+      const attempts = await waitForEvents(collector, 'reconnecting', 4);
+
+      assert.deepEqual(attempts.map(attempt => attempt.attempt), [1, 2, 1, 1]);
+      assert.deepEqual(attempts.map(attempt => attempt.delayMs), [10, 20, 10, 10]);
+    } finally {
+      await collector!.stop();
+      collector = null;
+      await new Promise(resolve => wss.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MessageQueue } from '../../src/message-queue';
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+describe('MessageQueue', () => {
+  it('reports full at maxSize and drained once back under half of it', async () => {
+    const pending: (() => void)[] = [];
+    const handled: number[] = [];
+    const queue = new MessageQueue(async message => {
+      await new Promise<void>(resolve => pending.push(resolve));
+      handled.push(message.time_us);
+    }, { maxSize: 4, concurrency: 1 });
+
+    const signals: string[] = [];
+    queue.on('full', stats => signals.push(`full:${stats.queued}`));
+    queue.on('drained', stats => signals.push(`drained:${stats.queued}`));
+
+    // The first message goes straight to the handler, so the fifth push fills the queue
+    for (let i = 1; i <= 6; i++) queue.push({ time_us: i });
+    assert.deepEqual(signals, ['full:4']);
+    assert.equal(queue.getStats().isFull, true);
+    assert.equal(queue.getStats().queued, 5);
+
+    // Still full with two queued, drained once one is left
+    for (let released = 1; released <= 4; released++) {
+      pending.shift()!();
+      await tick();
+    }
+    assert.deepEqual(signals, ['full:4']);
+
+    pending.shift()!();
+    await tick();
+    assert.deepEqual(signals, ['full:4', 'drained:1']);
+
+    const drained = queue.drain();
+    while (pending.length > 0 || queue.getStats().queued > 0) {
+      pending.shift()?.();
+      await tick();
+    }
+    await drained;
+
+    assert.deepEqual(handled, [1, 2, 3, 4, 5, 6]);
+    assert.deepEqual(
+      [queue.getStats().processed, queue.getStats().lastProcessedTimeUs, queue.getStats().isFull],
+      [6, 6, false]
+    );
+  });
+
+  it('keeps handling after a handler rejects', async () => {
+    const handled: number[] = [];
+    const queue = new MessageQueue(async message => {
+      if (message.time_us === 1) throw new Error('boom');
+      handled.push(message.time_us);
+    }, { concurrency: 1 });
+
+    queue.push({ time_us: 1 });
+    queue.push({ time_us: 2 });
+    await queue.drain();
+
+    assert.deepEqual(handled, [2]);
+    assert.equal(queue.getStats().processed, 2);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractEmbeds } from '../../src/post-embeds';
+
+const QUOTED = 'at://did:plc:bob/app.bsky.feed.post/3kquoted';
+
+const link = (uri: string) => ({
+  index: { byteStart: 0, byteEnd: 4 },
+  features: [{ $type: 'app.bsky.richtext.facet#link', uri }]
+});
+
+describe('extractEmbeds', () => {
+  it('returns empty columns for a post without embeds or links', () => {
+    assert.deepEqual(extractEmbeds({ text: 'hello' }), {
+      embedType: null,
+      imageCount: 0,
+      imageAltCount: 0,
+      externalUrl: null,
+      externalDomain: null,
+      externalTitle: null,
+      linkCount: 0,
+      quoteUri: null,
+      hasVideo: false,
+      videoAlt: null
+    });
+  });
+
+  it('counts images and the ones with alt text', () => {
+    const embeds = extractEmbeds({
+      embed: {
+        $type: 'app.bsky.embed.images',
+        images: [{ alt: 'a cat' }, { alt: '  ' }, { alt: '' }, {}]
+      }
+    });
+    assert.deepEqual([embeds.embedType, embeds.imageCount, embeds.imageAltCount], ['images', 4, 1]);
+  });
+
+  it('takes the link card and counts distinct links with the facets', () => {
+    const embeds = extractEmbeds({
+      embed: {
+        $type: 'app.bsky.embed.external',
+        external: { uri: 'https://www.Example.com/article', title: 'An article' }
+      },
+      facets: [link('https://www.Example.com/article'), link('https://other.org/')]
+    });
+    assert.deepEqual(
+      [embeds.embedType, embeds.externalUrl, embeds.externalDomain, embeds.externalTitle, embeds.linkCount],
+      ['external', 'https://www.Example.com/article', 'example.com', 'An article', 2]
+    );
+  });
+
+  it('falls back to the first link facet when there is no card', () => {
+    const embeds = extractEmbeds({ facets: [link('https://first.example/'), link('mailto:someone@example.com')] });
+    assert.deepEqual(
+      [embeds.embedType, embeds.externalUrl, embeds.externalDomain, embeds.linkCount],
+      [null, 'https://first.example/', 'first.example', 2]
+    );
+
+    assert.equal(extractEmbeds({ facets: [link('mailto:someone@example.com')] }).externalDomain, null);
+  });
+
+  it('unwraps quotes and the media of quotes with media', () => {
+    const quote = extractEmbeds({ embed: { $type: 'app.bsky.embed.record', record: { uri: QUOTED, cid: 'cid' } } });
+    assert.deepEqual([quote.embedType, quote.quoteUri, quote.imageCount], ['record', QUOTED, 0]);
+
+    const withImages = extractEmbeds({
+      embed: {
+        $type: 'app.bsky.embed.recordWithMedia',
+        record: { record: { uri: QUOTED, cid: 'cid' } },
+        media: { $type: 'app.bsky.embed.images', images: [{ alt: 'chart' }] }
+      }
+    });
+    assert.deepEqual(
+      [withImages.embedType, withImages.quoteUri, withImages.imageCount, withImages.imageAltCount],
+      ['recordWithMedia', QUOTED, 1, 1]
+    );
+  });
+
+  it('flags videos and keeps their alt text', () => {
+    const video = extractEmbeds({ embed: { $type: 'app.bsky.embed.video', video: {}, alt: 'a timelapse' } });
+    assert.deepEqual([video.embedType, video.hasVideo, video.videoAlt], ['video', true, 'a timelapse']);
+
+    const quotedVideo = extractEmbeds({
+      embed: {
+        $type: 'app.bsky.embed.recordWithMedia',
+        record: { record: { uri: QUOTED } },
+        media: { $type: 'app.bsky.embed.video', video: {}, alt: ' ' }
+      }
+    });
+    assert.deepEqual([quotedVideo.hasVideo, quotedVideo.videoAlt], [true, null]);
+  });
+
+  it('keeps unknown embed types whole and ignores malformed records', () => {
+    assert.equal(extractEmbeds({ embed: { $type: 'com.example.embed' } }).embedType, 'com.example.embed');
+    assert.equal(extractEmbeds({ embed: 'nope', facets: 'nope' }).embedType, null);
+    assert.equal(extractEmbeds(null).linkCount, 0);
+  });
+});
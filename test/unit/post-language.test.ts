@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolvePostLanguage, detectLanguage } from '../../src/post-language';
+
+describe('resolvePostLanguage', () => {
+  it('prefers declared languages, normalized and deduplicated', () => {
+    assert.deepEqual(resolvePostLanguage({ text: 'Bonjour tout le monde', langs: ['en-us', 'EN-US', 'zh-hant-tw', 'pt-br', 'de'] }), {
+      language: 'en',
+      languages: ['en-US', 'zh-Hant-TW', 'pt-BR'],
+      source: 'declared',
+      confidence: null
+    });
+  });
+
+  it('ignores malformed declared tags and falls back to detection', () => {
+    const result = resolvePostLanguage({
+      text: 'Das ist ein ganz normaler Satz auf Deutsch, geschrieben für den Test.',
+      langs: ['', 'not a tag', 42]
+    });
+    assert.deepEqual([result.language, result.languages, result.source], ['de', ['de'], 'detected']);
+    assert.ok(result.confidence! > 0 && result.confidence! <= 1);
+  });
+
+  it('stores unknown when nothing is declared and the text is too short', () => {
+    assert.deepEqual(resolvePostLanguage({ text: 'lol' }), {
+      language: 'unknown',
+      languages: [],
+      source: 'unknown',
+      confidence: null
+    });
+    assert.equal(resolvePostLanguage(null).source, 'unknown');
+  });
+});
+
+describe('detectLanguage', () => {
+  it('ignores links, mentions and hashtags when judging length', () => {
+    assert.equal(detectLanguage('@alice.bsky.social #tag https://example.com/a-long-path ok'), null);
+    assert.equal(detectLanguage('This is plainly an English sentence about the weather today.')?.language, 'en');
+  });
+
+  it('honors minConfidence and minTextLength', () => {
+    const text = 'This is plainly an English sentence about the weather today.';
+    assert.equal(detectLanguage(text, { minConfidence: 1.01 }), null);
+    assert.equal(detectLanguage(text, { minTextLength: 1000 }), null);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Pool } from 'pg';
+import { ThreadTracker } from '../../src/thread-tracker';
+
+const ROOT = 'at://did:plc:alice/app.bsky.feed.post/root';
+
+/**
+ * A pool that answers depth lookups from a map of stored posts and records which URIs were looked up
+ */
+function storedPosts(depths: Record<string, [number, boolean]>, lookups: string[]): Pool {
+  return {
+    query: async (sql: string, [uri]: string[]) => {
+      lookups.push(uri);
+      const stored = depths[uri];
+      return { rows: stored ? [{ thread_depth: stored[0], thread_depth_resolved: stored[1] }] : [] };
+    }
+  } as unknown as Pool;
+}
+
+const reply = (parent: string, root: string = ROOT) => ({
+  text: 'reply',
+  reply: { root: { uri: root }, parent: { uri: parent } }
+});
+
+describe('ThreadTracker depths', () => {
+  it('knows top-level posts and direct replies without a lookup', async () => {
+    const lookups: string[] = [];
+    const tracker = new ThreadTracker(storedPosts({}, lookups));
+
+    assert.deepEqual(await tracker.resolveDepth(ROOT, { text: 'root' }), { depth: 0, resolved: true });
+    assert.deepEqual(await tracker.resolveDepth(`${ROOT}-1`, reply(ROOT)), { depth: 1, resolved: true });
+    assert.deepEqual(lookups, []);
+  });
+
+  it('builds on recently seen parents before asking the database', async () => {
+    const lookups: string[] = [];
+    const tracker = new ThreadTracker(storedPosts({ 'at://stored': [3, true] }, lookups));
+
+    await tracker.resolveDepth('at://a', reply(ROOT));
+    assert.deepEqual(await tracker.resolveDepth('at://b', reply('at://a')), { depth: 2, resolved: true });
+    assert.deepEqual(await tracker.resolveDepth('at://c', reply('at://stored')), { depth: 4, resolved: true });
+    assert.deepEqual(lookups, ['at://stored']);
+  });
+
+  it('gives replies to unseen parents a provisional depth that their replies inherit', async () => {
+    const tracker = new ThreadTracker(storedPosts({}, []));
+
+    assert.deepEqual(await tracker.resolveDepth('at://orphan', reply('at://missing')), { depth: 2, resolved: false });
+    assert.deepEqual(await tracker.resolveDepth('at://child', reply('at://orphan')), { depth: 3, resolved: false });
+  });
+
+  it('forgets the least recently seen depths beyond depthCacheSize', async () => {
+    const lookups: string[] = [];
+    const tracker = new ThreadTracker(storedPosts({}, lookups), { depthCacheSize: 2 });
+
+    await tracker.resolveDepth('at://a', reply(ROOT));
+    await tracker.resolveDepth('at://b', reply(ROOT));
+    await tracker.resolveDepth('at://c', reply(ROOT));
+
+    await tracker.resolveDepth('at://d', reply('at://c'));
+    assert.deepEqual(lookups, []);
+    await tracker.resolveDepth('at://e', reply('at://a'));
+    assert.deepEqual(lookups, ['at://a']);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createCCtx, freeCCtx, compressUsingDict } from '@bokuweb/zstd-wasm';
+import { ZstdDecoder, initZstd } from '../../src/zstd-decoder';
+
+describe('ZstdDecoder', () => {
+  const dictionary = Buffer.from(fs.readFileSync(path.join(__dirname, '../fixtures/jetstream-events.ndjson'), 'utf8').repeat(4));
+  const dictionaryPath = path.join(os.tmpdir(), `zstd-decoder-test-dictionary-${process.pid}`);
+  let cctx: number;
+
+  const compress = (text: string) => Buffer.from(compressUsingDict(cctx, Buffer.from(text), dictionary, 3));
+
+  before(async () => {
+    fs.writeFileSync(dictionaryPath, dictionary);
+    await initZstd();
+    cctx = createCCtx();
+  });
+
+  after(() => {
+    freeCCtx(cctx);
+    fs.unlinkSync(dictionaryPath);
+  });
+
+  it('decompresses frames encoded against the dictionary', async () => {
+    const decoder = await ZstdDecoder.create(dictionaryPath);
+
+    try {
+      const lines = fs.readFileSync(path.join(__dirname, '../fixtures/jetstream-events.ndjson'), 'utf8').split('\n').filter(Boolean);
+      for (const line of lines) {
+        const frame = compress(line);
+        assert.ok(frame.length < Buffer.byteLength(line));
+        assert.equal(decoder.decompress(frame).toString(), line);
+      }
+    } finally {
+      decoder.close();
+    }
+  });
+
+  it('keeps earlier decoders working when another one is created', async () => {
+    const first = await ZstdDecoder.create(dictionaryPath);
+    const second = await ZstdDecoder.create(dictionaryPath);
+    const text = JSON.stringify({ did: 'did:plc:alice', kind: 'commit', time_us: 1 });
+
+    try {
+      assert.equal(first.decompress(compress(text)).toString(), text);
+      assert.equal(second.decompress(compress(text)).toString(), text);
+    } finally {
+      first.close();
+      second.close();
+    }
+  });
+
+  it('sizes output by the frame header rather than maxFrameSize', async () => {
+    const decoder = await ZstdDecoder.create(dictionaryPath, 1024);
+    const text = 'x'.repeat(64 * 1024);
+
+    try {
+      assert.equal(decoder.decompress(compress(text)).toString(), text);
+    } finally {
+      decoder.close();
+    }
+  });
+});